@@ -3,16 +3,33 @@ import json from "@rollup/plugin-json";
 import { nodeResolve } from "@rollup/plugin-node-resolve";
 import typescript from "@rollup/plugin-typescript";
 
-const config = {
-  input: "src/index.ts",
-  output: {
-    esModule: true,
-    file: "dist/index.js",
-    format: "es",
-    sourcemap: false,
+const plugins = () => [commonjs(), nodeResolve({ preferBuiltins: true }), json(), typescript({ tsconfig: "./tsconfig.build.json" })];
+
+const config = [
+  {
+    input: "src/action.ts",
+    output: {
+      esModule: true,
+      file: "dist/index.js",
+      format: "es",
+      sourcemap: false,
+    },
+    context: "globalThis",
+    plugins: plugins()
   },
-  context: "globalThis",
-  plugins: [commonjs(), nodeResolve({ preferBuiltins: true }), json(), typescript({ tsconfig: "./tsconfig.build.json" })]
-};
+  {
+    // the release-tag-commit command
+    input: "src/bin.ts",
+    output: {
+      esModule: true,
+      file: "dist/cli.js",
+      format: "es",
+      sourcemap: false,
+      banner: "#!/usr/bin/env node",
+    },
+    context: "globalThis",
+    plugins: plugins()
+  }
+];
 
-export default config;
\ No newline at end of file
+export default config;
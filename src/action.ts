@@ -0,0 +1,4 @@
+import { run } from "./index.js";
+
+// Entry point of the Action (dist/index.js); index.ts only exports, so the CLI can share it
+void run();
@@ -0,0 +1,115 @@
+import * as core from "@actions/core";
+
+// not_found and validation are left to the callers, rate_limit and server are retried,
+// permission problems fail the run with the workflow permission to add
+export type ApiErrorKind = "not_found" | "permission" | "validation" | "rate_limit" | "server" | "other";
+
+export class GitHubApiError extends Error {
+    constructor(message: string, readonly status: number | undefined, readonly kind: ApiErrorKind) {
+        super(message);
+        this.name = "GitHubApiError";
+    }
+}
+
+// Attempts of one request when it hits a rate limit or a server error
+export const API_ATTEMPTS = 3;
+// Waiting longer for a rate limit reset would only burn runner minutes
+const MAX_RETRY_WAIT_MS = 60_000;
+
+// Workflow permission of each API area; PR comments go through the issues API
+const permissionAreas: Array<[RegExp, string]> = [
+    [/\/check-runs/, "checks"],
+    [/\/issues\//, "pull-requests"],
+    [/\/pulls/, "pull-requests"],
+    [/\/(git|releases|contents|tags|commits|compare)\b/, "contents"],
+];
+
+export interface ApiRoute {
+    method: string;
+    url: string;
+}
+
+export function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function header(err: any, name: string): string | undefined {
+    return err?.response?.headers?.[name];
+}
+
+export function apiErrorKind(err: any): ApiErrorKind {
+    const status: number | undefined = err?.status;
+    if (status === 404) {
+        return "not_found";
+    }
+    if (status === 422) {
+        return "validation";
+    }
+    if (status === 429 || (status === 403 && (header(err, "x-ratelimit-remaining") === "0" || /rate limit/i.test(err?.message ?? "")))) {
+        return "rate_limit";
+    }
+    if (status === 401 || status === 403) {
+        return "permission";
+    }
+    return status !== undefined && status >= 500 ? "server" : "other";
+}
+
+// e.g. "contents: write" for POST /repos/{owner}/{repo}/git/refs; null for areas without a workflow permission
+export function requiredPermission(route: ApiRoute): string | null {
+    const area = permissionAreas.find(([pattern]) => pattern.test(route.url))?.[1];
+    return area ? `${area}: ${route.method.toUpperCase() === "GET" ? "read" : "write"}` : null;
+}
+
+// Milliseconds to wait before the next attempt, null if the limit resets too late to wait for
+export function apiRetryDelay(err: any, attempt: number, now = Date.now()): number | null {
+    const retryAfter = Number(header(err, "retry-after"));
+    const reset = Number(header(err, "x-ratelimit-reset"));
+    let delay = 1000 * 2 ** (attempt - 1);
+    if (retryAfter > 0) {
+        delay = retryAfter * 1000;
+    } else if (apiErrorKind(err) === "rate_limit" && reset > 0) {
+        delay = Math.max(reset * 1000 - now, 0) + 1000;
+    }
+    return delay <= MAX_RETRY_WAIT_MS ? delay : null;
+}
+
+export function describeApiError(err: any, route: ApiRoute): string {
+    const call = `${route.method.toUpperCase()} ${route.url}`;
+    const reason = `${err?.status ?? "error"}: ${err?.message ?? String(err)}`;
+    if (err?.status === 401) {
+        return `GitHub rejected the token for ${call} (${reason}). Check the token input.`;
+    }
+    const permission = requiredPermission(route);
+    return permission
+        ? `GitHub denied ${call} (${reason}). Add "${permission}" to the permissions of the workflow job, or use a token that has it.`
+        : `GitHub denied ${call} (${reason}). Check the permissions of the token.`;
+}
+
+// Sends the request, retrying rate limits and server errors with backoff
+export async function withApiRetries<T>(send: () => Promise<T>, route: ApiRoute, wait = sleep): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await send();
+        } catch (err: any) {
+            const kind = apiErrorKind(err);
+            if (kind === "permission") {
+                throw new GitHubApiError(describeApiError(err, route), err.status, kind);
+            }
+            if (kind !== "rate_limit" && kind !== "server") {
+                throw err;
+            }
+            const delay = apiRetryDelay(err, attempt);
+            const what = kind === "rate_limit" ? "hit the rate limit" : `failed with ${err.status}`;
+            if (attempt >= API_ATTEMPTS || delay === null) {
+                throw new GitHubApiError(`${route.method.toUpperCase()} ${route.url} ${what} after ${attempt} attempt(s): ${err?.message ?? String(err)}`, err.status, kind);
+            }
+            core.warning(`${route.method.toUpperCase()} ${route.url} ${what}; retrying in ${delay} ms (attempt ${attempt + 1} of ${API_ATTEMPTS}).`);
+            await wait(delay);
+        }
+    }
+}
+
+// Routes every request of the client (also the paginated ones) through the error layer
+export function installApiLayer(octokit: { hook?: { wrap(name: "request", fn: (request: any, options: any) => Promise<any>): void } }) {
+    octokit.hook?.wrap("request", (request, options) => withApiRetries(() => request(options), options));
+}
@@ -0,0 +1,101 @@
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import { basename, extname, join, relative, sep } from "path";
+import { matchGlob } from "./glob.js";
+
+// Name of the asset listing the SHA-256 checksums of the other assets (sha256sum format)
+export const CHECKSUMS_ASSET_NAME = "SHA256SUMS";
+
+// One file to attach to the release
+export interface ReleaseAsset {
+    path: string;
+    name: string;
+    contentType: string;
+    size: number;
+    sha256: string;
+}
+
+const contentTypes: Record<string, string> = {
+    ".zip": "application/zip",
+    ".gz": "application/gzip",
+    ".tgz": "application/gzip",
+    ".tar": "application/x-tar",
+    ".xz": "application/x-xz",
+    ".jar": "application/java-archive",
+    ".deb": "application/vnd.debian.binary-package",
+    ".rpm": "application/x-rpm",
+    ".dmg": "application/x-apple-diskimage",
+    ".exe": "application/vnd.microsoft.portable-executable",
+    ".json": "application/json",
+    ".pdf": "application/pdf",
+    ".asc": "application/pgp-signature",
+    ".sig": "application/pgp-signature",
+    ".txt": "text/plain",
+    ".md": "text/markdown",
+};
+
+// Parses the multi-line release_assets input (one file glob per line, relative to the workspace)
+export function parseAssetPatterns(input: string): string[] {
+    return (input || "")
+        .split(/\r?\n/)
+        .map(line => line.replace(/#.*$/, "").trim())
+        .filter(line => line.length > 0);
+}
+
+export function contentTypeFor(name: string) {
+    return contentTypes[extname(name).toLowerCase()] ?? "application/octet-stream";
+}
+
+// All files below root as "/" separated relative paths; .git and node_modules are skipped
+function listFiles(root: string, dir = root): string[] {
+    return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            return entry.name === ".git" || entry.name === "node_modules" ? [] : listFiles(root, path);
+        }
+        return entry.isFile() ? [relative(root, path).split(sep).join("/")] : [];
+    });
+}
+
+// Resolves the patterns to files with content type and checksum. Every pattern must match a file and asset names must be unique.
+export function findReleaseAssets(patterns: string[], root: string): ReleaseAsset[] {
+    const files = listFiles(root).sort();
+    const matched = new Set<string>();
+    for (const pattern of patterns) {
+        const hits = files.filter(f => matchGlob(pattern.replace(/^\.\//, ""), f));
+        if (hits.length === 0) {
+            throw new Error(`release_assets pattern "${pattern}" matched no files.`);
+        }
+        hits.forEach(f => matched.add(f));
+    }
+
+    const names = new Map<string, string>();
+    return [...matched].map(file => {
+        const name = basename(file);
+        if (names.has(name) || name === CHECKSUMS_ASSET_NAME) {
+            throw new Error(`Release assets ${names.get(name) ?? CHECKSUMS_ASSET_NAME} and ${file} have the same name ${name}.`);
+        }
+        names.set(name, file);
+        const content = readFileSync(join(root, file));
+        return {
+            path: join(root, file),
+            name,
+            contentType: contentTypeFor(name),
+            size: content.length,
+            sha256: createHash("sha256").update(content).digest("hex"),
+        };
+    });
+}
+
+export function renderChecksums(assets: ReleaseAsset[]) {
+    return assets.map(a => `${a.sha256}  ${a.name}\n`).join("");
+}
+
+// The uploads of a release: the assets, followed by the checksum list
+export function assetUploads(assets: ReleaseAsset[], checksums: boolean): Array<{ name: string; contentType: string; data: Buffer }> {
+    const uploads = assets.map(a => ({ name: a.name, contentType: a.contentType, data: readFileSync(a.path) }));
+    if (checksums && assets.length) {
+        uploads.push({ name: CHECKSUMS_ASSET_NAME, contentType: "text/plain", data: Buffer.from(renderChecksums(assets), "utf8") });
+    }
+    return uploads;
+}
@@ -0,0 +1,6 @@
+import { main } from "./cli.js";
+
+// Entry point of the release-tag-commit command (dist/cli.js)
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
@@ -0,0 +1,87 @@
+import { matchGlob } from "./glob.js";
+import type { Version, VersionIncrease } from "./index.js";
+
+// One line of the branches input, e.g. "next: beta" or "release/*"
+export interface BranchRule {
+    pattern: string;
+    channel?: string;
+}
+
+// Maintenance range derived from a branch name like "1.x" (major) or "1.2.x" (major + minor)
+export interface MaintenanceRange {
+    major: number;
+    minor?: number;
+}
+
+export interface BranchChannel {
+    branch: string;
+    pattern: string;
+    prerelease?: string;
+    range?: MaintenanceRange;
+}
+
+// Parses the multi-line branches input. Empty channel or "stable" means stable releases.
+export function parseBranchRules(input: string): BranchRule[] {
+    return (input || "")
+        .split(/\r?\n/)
+        .map(line => line.replace(/#.*$/, "").trim())
+        .filter(line => line.length > 0)
+        .map(line => {
+            const idx = line.lastIndexOf(":");
+            const pattern = (idx === -1 ? line : line.slice(0, idx)).trim();
+            const channel = idx === -1 ? "" : line.slice(idx + 1).trim();
+            if (!pattern) {
+                throw new Error(`Invalid branches entry "${line}". Expected "<branch pattern>[: <channel>]".`);
+            }
+            return channel && channel.toLowerCase() !== "stable" ? { pattern, channel } : { pattern };
+        });
+}
+
+// Glob match for branch names: "*" matches within one path segment, "**" across segments
+export function matchBranch(pattern: string, branch: string) {
+    return matchGlob(pattern, branch);
+}
+
+export function parseMaintenanceRange(branch: string): MaintenanceRange | undefined {
+    const name = branch.split("/").pop() || "";
+    const m = /^v?(\d+)\.(?:(\d+)\.)?x$/.exec(name);
+    if (!m) {
+        return undefined;
+    }
+    return m[2] === undefined ? { major: Number(m[1]) } : { major: Number(m[1]), minor: Number(m[2]) };
+}
+
+// First rule matching the branch wins
+export function resolveBranchChannel(rules: BranchRule[], branch: string): BranchChannel | null {
+    const rule = rules.find(r => matchBranch(r.pattern, branch));
+    if (!rule) {
+        return null;
+    }
+    return { branch, pattern: rule.pattern, prerelease: rule.channel, range: parseMaintenanceRange(branch) };
+}
+
+export function isWithinRange(version: Version, range?: MaintenanceRange) {
+    if (!range) {
+        return true;
+    }
+    return version[0] === range.major && (range.minor === undefined || version[1] === range.minor);
+}
+
+// Returns an error message if the bump would leave the maintenance range, otherwise null
+export function checkIncreaseInRange(versionToIncrease: VersionIncrease, channel: BranchChannel): string | null {
+    const range = channel.range;
+    if (!range) {
+        return null;
+    }
+    const rangeName = range.minor === undefined ? `${range.major}.x` : `${range.major}.${range.minor}.x`;
+    if (versionToIncrease === "major" || (range.minor !== undefined && versionToIncrease === "minor")) {
+        const allowed = range.minor === undefined ? "minor and patch" : "patch";
+        return `A ${versionToIncrease} bump is not allowed on maintenance branch ${channel.branch}. Only ${allowed} releases within ${rangeName} are possible.`;
+    }
+    return null;
+}
+
+// Branch name of a ref like refs/heads/main
+export function branchFromRef(ref: string) {
+    return (ref || "").replace(/^refs\/heads\//, "");
+}
@@ -0,0 +1,112 @@
+import type { ParsedCommit } from "./index.js";
+
+export const DEFAULT_CHANGELOG_TEMPLATE = "## {tag} ({date})\n\n{sections}";
+
+// Web URLs of a commit, a pull/merge request and a compare; their layout differs per forge
+export interface ChangelogLinks {
+    commit(sha: string): string;
+    change(number: number): string;
+    compare(from: string, to: string): string;
+}
+
+// Without links, owner and repo give GitHub's layout. Without any of them
+// (a local clone without a known remote) the entries have no links.
+export interface ChangelogContext {
+    owner?: string;
+    repo?: string;
+    tag: string;
+    previousTag?: string;
+    date?: string;
+    prNumber?: number;
+    serverUrl?: string;
+    links?: ChangelogLinks;
+}
+
+// https://github.com/octo/app/commit/abc…, …/pull/12, …/compare/v1.0.0...v1.1.0
+export function githubLinks(repositoryUrl: string): ChangelogLinks {
+    return {
+        commit: sha => `${repositoryUrl}/commit/${sha}`,
+        change: number => `${repositoryUrl}/pull/${number}`,
+        compare: (from, to) => `${repositoryUrl}/compare/${from}...${to}`,
+    };
+}
+
+const sectionTitles: Array<[string, (c: ParsedCommit) => boolean]> = [
+    ["⚠ Breaking Changes", c => c.breaking],
+    ["✨ Features", c => !c.breaking && c.type === "feat"],
+    ["🐛 Bug Fixes", c => !c.breaking && c.type === "fix"],
+    ["🔧 Other Changes", c => !c.breaking && c.type !== "feat" && c.type !== "fix" && !!c.bump],
+];
+
+// Description of a breaking change: the BREAKING CHANGE footer if present, otherwise the subject
+function breakingDescription(commit: ParsedCommit) {
+    const footer = commit.footers.find(f => /^breaking[ -]changes?$/i.test(f.token));
+    return footer?.value || commit.subject;
+}
+
+function linksOf(ctx: ChangelogContext) {
+    return ctx.links ?? (ctx.owner && ctx.repo ? githubLinks(`${ctx.serverUrl ?? "https://github.com"}/${ctx.owner}/${ctx.repo}`) : null);
+}
+
+// One bullet like "- **api:** add endpoint ([abc1234](…/commit/abc…)) ([#12](…/pull/12))"
+export function renderChangelogEntry(commit: ParsedCommit, ctx: ChangelogContext, breaking = false) {
+    const links = linksOf(ctx);
+    const prRef = /\(#(\d+)\)\s*$/.exec(commit.subject);
+    const subject = prRef ? commit.subject.slice(0, prRef.index).trim() : commit.subject;
+    const prNumber = prRef ? Number(prRef[1]) : ctx.prNumber;
+
+    let entry = `- ${commit.scope ? `**${commit.scope}:** ` : ""}${breaking ? breakingDescription({ ...commit, subject }) : subject}`;
+    if (commit.sha) {
+        entry += links ? ` ([${commit.sha.slice(0, 7)}](${links.commit(commit.sha)}))` : ` (${commit.sha.slice(0, 7)})`;
+    }
+    if (prNumber) {
+        entry += links ? ` ([#${prNumber}](${links.change(prNumber)}))` : ` (#${prNumber})`;
+    }
+    return entry;
+}
+
+// Groups the commits by type; commits that don't affect the version are left out
+export function renderChangelogSections(commits: ParsedCommit[], ctx: ChangelogContext) {
+    const seen = new Set<string>();
+    const unique = commits.filter(c => {
+        if (!c.type && !c.breaking) {
+            return false;
+        }
+        if (seen.has(c.header)) {
+            return false;
+        }
+        seen.add(c.header);
+        return true;
+    });
+
+    return sectionTitles
+        .map(([title, belongs]) => {
+            const entries = unique.filter(belongs).map(c => renderChangelogEntry(c, ctx, title.includes("Breaking")));
+            return entries.length ? `### ${title}\n\n${entries.join("\n")}\n` : "";
+        })
+        .filter(Boolean)
+        .join("\n");
+}
+
+// Renders the release notes with the template placeholders {tag}, {previous_tag}, {date}, {compare_url} and {sections}
+export function renderChangelog(commits: ParsedCommit[], ctx: ChangelogContext, template = DEFAULT_CHANGELOG_TEMPLATE) {
+    const links = linksOf(ctx);
+    const values: Record<string, string> = {
+        tag: ctx.tag,
+        previous_tag: ctx.previousTag ?? "",
+        date: ctx.date ?? new Date().toISOString().slice(0, 10),
+        compare_url: links && ctx.previousTag ? links.compare(ctx.previousTag, ctx.tag) : "",
+        sections: renderChangelogSections(commits, ctx) || "_No notable changes._\n",
+    };
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => key in values ? values[key] : match).trim() + "\n";
+}
+
+// Puts the new entry on top of an existing changelog, below a leading "# Title" line
+export function prependChangelog(existing: string, entry: string) {
+    const content = existing.replace(/^\uFEFF/, "");
+    const title = /^# .*\r?\n(?:\s*\r?\n)*/.exec(content);
+    if (title) {
+        return `${title[0].trimEnd()}\n\n${entry.trimEnd()}\n\n${content.slice(title[0].length)}`.trimEnd() + "\n";
+    }
+    return `${entry.trimEnd()}\n\n${content}`.trimEnd() + "\n";
+}
@@ -0,0 +1,331 @@
+import { execFileSync } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import * as github from "@actions/github";
+import { installApiLayer } from "./api.js";
+import { BranchChannel, BranchRule, checkIncreaseInRange, parseBranchRules, resolveBranchChannel } from "./branches.js";
+import { DEFAULT_CHANGELOG_TEMPLATE, renderChangelog } from "./changelog.js";
+import { CONFIG_FILES, parseRepoConfig, RepoConfig, resolveInput } from "./config.js";
+import { emptyForgeResult, ForgeProvider, ForgeReleaseResult, releaseOnForge } from "./forge.js";
+import { parseTagFormat } from "./format.js";
+import { createGitHubProvider } from "./github.js";
+import { createGitLabProvider } from "./gitlab.js";
+import {
+    analyzeCommits,
+    channelTags,
+    CommitInput,
+    createTagNaming,
+    describeBumpCommits,
+    formatTagToString,
+    LatestTag,
+    latestTagOf,
+    nextVersion,
+    parseForcedBump,
+    parsePrereleaseChannel,
+    parseReleaseNotesMode,
+    parseTagScope,
+    VersionIncrease,
+} from "./index.js";
+import { parseBumpRules } from "./rules.js";
+
+const usage = `Usage: release-tag-commit [options]
+
+Computes the next version and changelog of a local git repository.
+
+Options:
+  --cwd <dir>                 Repository to read (default: current directory)
+  --ref <rev>                 Commit to release (default: HEAD)
+  --config <file>             Config file (default: .release-tag-commit.yml, .yaml or .json if present)
+  --v-prefix                  Prefix tags with v
+  --tag-format <format>       Template of tag names, e.g. release-{version}
+  --tag-scope <scope>         repository (all tags) or ancestry (tags reachable from --ref)
+  --prerelease <id>           Pre-release channel such as rc
+  --branch <name>             Branch picking the channel of the branches setting
+                              (default: the checked out branch, or the branch of the CI job with --forge)
+  --force-bump <bump>         major, minor or patch instead of analyzing commits
+  --bump-rules <rules>        Commit type to bump mapping, one "<type>: <bump>" per line
+  --changelog-template <tpl>  Template of the changelog
+  --repository <owner/repo>   Repository of the changelog links (default: from the origin remote)
+  --forge <forge>             github or gitlab: read tags and commits from its API and create the tag there
+  --sha <sha>                 Commit to tag with --forge (default: CI_COMMIT_SHA or GITHUB_SHA)
+  --merge-request <number>    Only comment the next tag on this pull/merge request (default: CI_MERGE_REQUEST_IID)
+  --create-release            Also create a release with --forge
+  --dry-run                   Log the writes of --forge instead of making them
+  --json                      Print the result as JSON
+  -h, --help                  Show this help
+
+--forge gitlab reads GITLAB_TOKEN, CI_API_V4_URL, CI_PROJECT_ID and CI_PROJECT_URL;
+--forge github reads GITHUB_TOKEN, GITHUB_REPOSITORY, GITHUB_API_URL and GITHUB_SERVER_URL.
+`;
+
+const cliOptions = {
+    "cwd": { type: "string" },
+    "ref": { type: "string" },
+    "config": { type: "string" },
+    "v-prefix": { type: "boolean" },
+    "tag-format": { type: "string" },
+    "tag-scope": { type: "string" },
+    "prerelease": { type: "string" },
+    "branch": { type: "string" },
+    "force-bump": { type: "string" },
+    "bump-rules": { type: "string" },
+    "changelog-template": { type: "string" },
+    "repository": { type: "string" },
+    "forge": { type: "string" },
+    "sha": { type: "string" },
+    "merge-request": { type: "string" },
+    "create-release": { type: "boolean" },
+    "dry-run": { type: "boolean" },
+    "json": { type: "boolean" },
+    "help": { type: "boolean", short: "h" },
+} as const;
+
+// Same names as the Action outputs
+export interface LocalRelease {
+    new_tag: string;
+    previous_tag: string;
+    bump: VersionIncrease | "none";
+    version: string;
+    major: string;
+    minor: string;
+    patch: string;
+    changelog: string;
+    commits: string[];
+}
+
+export interface RemoteRepository {
+    serverUrl: string;
+    owner: string;
+    repo: string;
+}
+
+function git(cwd: string, args: string[]) {
+    return execFileSync("git", args, { cwd, encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] });
+}
+
+// Tags of the repository; ancestry only lists tags reachable from ref
+export function listLocalTags(cwd: string, ref: string, scope: "repository" | "ancestry"): string[] {
+    const output = git(cwd, scope === "ancestry" ? ["tag", "--merged", ref] : ["tag", "--list"]);
+    return output.split("\n").map(line => line.trim()).filter(Boolean);
+}
+
+// Commits after the latest tag up to ref, newest first (all commits of ref without a tag)
+export function listLocalCommits(cwd: string, latest: LatestTag, ref: string): CommitInput[] {
+    const range = latest.found ? `${latest.name}..${ref}` : ref;
+    return git(cwd, ["log", "--format=%H%x1f%B%x1e", range, "--"])
+        .split("\x1e")
+        .map(record => record.trim())
+        .filter(Boolean)
+        .map(record => {
+            const [sha, message] = record.split("\x1f");
+            return { sha, message: (message ?? "").trim() };
+        });
+}
+
+// https://github.com/o/r.git, git@github.com:o/r.git and ssh://git@host/group/sub/r are understood
+export function parseRemoteUrl(url: string): RemoteRepository | null {
+    const m = /^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/](.+)\/([^/]+?)(?:\.git)?\/?$/.exec(url.trim());
+    return m ? { serverUrl: `https://${m[1]}`, owner: m[2], repo: m[3] } : null;
+}
+
+// null without --repository and a parseable origin remote: the changelog then has no links
+function resolveRepository(cwd: string, value: string | undefined): RemoteRepository | null {
+    if (value) {
+        const [owner, repo] = value.split("/");
+        if (!owner || !repo) {
+            throw new Error(`Invalid --repository "${value}". Expected owner/repo.`);
+        }
+        return { serverUrl: "https://github.com", owner, repo };
+    }
+    let url = "";
+    try {
+        url = git(cwd, ["remote", "get-url", "origin"]);
+    } catch {
+        // no origin remote
+    }
+    return parseRemoteUrl(url);
+}
+
+function loadLocalConfig(cwd: string, path?: string): RepoConfig {
+    if (path) {
+        if (!existsSync(join(cwd, path))) {
+            throw new Error(`Config file ${path} not found.`);
+        }
+        return parseRepoConfig(readFileSync(join(cwd, path), "utf8"), path);
+    }
+    const found = CONFIG_FILES.find(file => existsSync(join(cwd, file)));
+    return found ? parseRepoConfig(readFileSync(join(cwd, found), "utf8"), found) : {};
+}
+
+// Options and config file settings shared by the local and the forge mode
+function readSettings(argv: string[]) {
+    const { values } = parseArgs({ args: argv, options: cliOptions });
+    const cwd = values.cwd ?? process.cwd();
+    // options override the config file, like inputs do in the Action
+    const config = loadLocalConfig(cwd, values.config);
+    const option = (name: string, value?: string) => resolveInput(name, value ?? "", config);
+
+    const vPrefix = option("v_prefix", values["v-prefix"] ? "true" : undefined).toLowerCase() === "true";
+    const tagFormat = parseTagFormat(option("tag_format", values["tag-format"]));
+    return {
+        values,
+        cwd,
+        option,
+        vPrefix,
+        tagFormat,
+        naming: createTagNaming(tagFormat, vPrefix),
+        tagScope: parseTagScope(option("tag_scope", values["tag-scope"])),
+        prerelease: parsePrereleaseChannel(option("prerelease", values.prerelease)),
+        branchRules: parseBranchRules(option("branches")),
+        forcedBump: parseForcedBump(values["force-bump"] ?? ""),
+        bumpRules: parseBumpRules(option("bump_rules", values["bump-rules"])),
+        changelogTemplate: option("changelog_template", values["changelog-template"]) || DEFAULT_CHANGELOG_TEMPLATE,
+    };
+}
+
+// With a branches setting the branch picks the pre-release channel and maintenance range, like the base branch in the Action
+function resolveChannel(rules: BranchRule[], branch: string | undefined, prerelease: string | undefined): { channel: BranchChannel | null; prerelease?: string } {
+    if (rules.length === 0) {
+        return { channel: null, prerelease };
+    }
+    if (!branch) {
+        throw new Error("The branches setting needs --branch when no branch is checked out.");
+    }
+    const channel = resolveBranchChannel(rules, branch);
+    if (!channel) {
+        throw new Error(`Branch ${branch} does not match any entry of the branches setting.`);
+    }
+    return { channel, prerelease: parsePrereleaseChannel(channel.prerelease ?? "") };
+}
+
+// Computes the release the Action would create for ref, from the tags and commits of the local clone
+export function computeLocalRelease(argv: string[]): LocalRelease | null {
+    const { values, cwd, naming, tagScope, forcedBump, bumpRules, changelogTemplate, ...settings } = readSettings(argv);
+    const ref = values.ref ?? "HEAD";
+    const branch = values.branch ?? (settings.branchRules.length ? git(cwd, ["branch", "--show-current"]).trim() : undefined);
+    const { channel, prerelease } = resolveChannel(settings.branchRules, branch, settings.prerelease);
+
+    const tagNames = listLocalTags(cwd, ref, tagScope);
+    const latest = latestTagOf(channel ? channelTags(tagNames, naming, prerelease) : tagNames, naming, channel?.range);
+    const analysis = analyzeCommits(listLocalCommits(cwd, latest, ref), bumpRules);
+    const bump = forcedBump ?? analysis.bump;
+    if (!bump) {
+        return null;
+    }
+    const rangeError = channel ? checkIncreaseInRange(bump, channel) : null;
+    if (rangeError) {
+        throw new Error(rangeError);
+    }
+    const version = nextVersion(latest.parsed, bump, prerelease);
+    const [major, minor, patch, ...identifiers] = version;
+    const newTag = naming.render(version);
+    return {
+        new_tag: newTag,
+        previous_tag: latest.found ? latest.name : "",
+        bump,
+        version: formatTagToString(major, minor, patch, false, identifiers),
+        major: String(major),
+        minor: String(minor),
+        patch: String(patch),
+        changelog: renderChangelog(analysis.commits, {
+            ...resolveRepository(cwd, values.repository),
+            tag: newTag,
+            previousTag: latest.found ? latest.name : undefined,
+        }, changelogTemplate),
+        commits: forcedBump ? [] : describeBumpCommits(analysis.commits),
+    };
+}
+
+// Provider of --forge, configured from the variables the CI system sets
+export function createForgeFromEnv(name: string, env: NodeJS.ProcessEnv, log: (message: string) => void): ForgeProvider {
+    if (name === "gitlab") {
+        const { GITLAB_TOKEN: token, CI_API_V4_URL: apiUrl, CI_PROJECT_ID: project, CI_PROJECT_URL: webUrl } = env;
+        if (!token || !apiUrl || !project || !webUrl) {
+            throw new Error("--forge gitlab needs GITLAB_TOKEN, CI_API_V4_URL, CI_PROJECT_ID and CI_PROJECT_URL.");
+        }
+        return createGitLabProvider({ apiUrl, project, token, webUrl, log });
+    }
+    if (name === "github") {
+        const [owner, repo] = (env.GITHUB_REPOSITORY ?? "").split("/");
+        if (!env.GITHUB_TOKEN || !owner || !repo) {
+            throw new Error("--forge github needs GITHUB_TOKEN and GITHUB_REPOSITORY.");
+        }
+        const octokit = github.getOctokit(env.GITHUB_TOKEN, { baseUrl: env.GITHUB_API_URL || "https://api.github.com" });
+        installApiLayer(octokit);
+        return createGitHubProvider(octokit, owner, repo, env.GITHUB_SERVER_URL || "https://github.com");
+    }
+    throw new Error(`Invalid --forge "${name}". Expected github or gitlab.`);
+}
+
+// Releases --sha through the forge API: tags it (and releases it), or comments the preview on a merge request
+export async function releaseWithForge(argv: string[], env: NodeJS.ProcessEnv, log: (message: string) => void): Promise<ForgeReleaseResult> {
+    const { values, option, vPrefix, tagFormat, naming, forcedBump, bumpRules, changelogTemplate, ...settings } = readSettings(argv);
+    const forge = createForgeFromEnv(values.forge ?? "", env, log);
+    // target branch of a merge request, otherwise the branch of the pipeline
+    const branch = values.branch ?? (env.CI_MERGE_REQUEST_TARGET_BRANCH_NAME || env.CI_COMMIT_BRANCH || env.GITHUB_BASE_REF || env.GITHUB_REF_NAME);
+    const { channel, prerelease } = resolveChannel(settings.branchRules, branch, settings.prerelease);
+    const sha = values.sha || env.CI_COMMIT_SHA || env.GITHUB_SHA;
+    if (!sha) {
+        throw new Error("--forge needs --sha (or CI_COMMIT_SHA / GITHUB_SHA).");
+    }
+    const changeNumber = values["merge-request"] ?? (forge.name === "gitlab" ? env.CI_MERGE_REQUEST_IID : undefined);
+    if (changeNumber !== undefined && !/^\d+$/.test(changeNumber)) {
+        throw new Error(`Invalid --merge-request "${changeNumber}". Expected a number.`);
+    }
+    return releaseOnForge(forge, {
+        sha,
+        naming,
+        bumpRules,
+        changelogTemplate,
+        prerelease,
+        channel,
+        forcedBump,
+        createRelease: option("create_release", values["create-release"] ? "true" : undefined).toLowerCase() === "true",
+        // the release settings of the Action, from the config file
+        generateNotes: parseReleaseNotesMode(option("release_notes")) === "github" && option("generate_release_notes").toLowerCase() === "true",
+        makeLatest: option("mark_release_as_latest").toLowerCase() === "true" && !prerelease && !channel?.range,
+        changeNumber: changeNumber ? Number(changeNumber) : undefined,
+        vPrefix,
+        tagFormat,
+        commentTemplate: option("comment_template"),
+        dryRun: !!values["dry-run"],
+        log,
+    });
+}
+
+// Runs the command and returns the exit code: 0 also when nothing is released, 1 on errors
+export async function main(argv: string[], out: NodeJS.WritableStream = process.stdout, err: NodeJS.WritableStream = process.stderr, env: NodeJS.ProcessEnv = process.env): Promise<number> {
+    if (argv.includes("--help") || argv.includes("-h")) {
+        out.write(usage);
+        return 0;
+    }
+    const json = argv.includes("--json");
+    const forgeMode = argv.some(arg => arg === "--forge" || arg.startsWith("--forge="));
+    // progress of the forge mode goes to stderr so that --json stays parseable
+    const log = (message: string) => err.write(`${message}\n`);
+    let release: LocalRelease | ForgeReleaseResult | null;
+    try {
+        release = forgeMode ? await releaseWithForge(argv, env, log) : computeLocalRelease(argv);
+    } catch (error: any) {
+        err.write(`release-tag-commit: ${error?.stderr?.toString().trim() || (error?.message ?? String(error))}\n`);
+        return 1;
+    }
+    if (release && !release.new_tag) {
+        release = null;
+    }
+
+    if (json) {
+        const none: LocalRelease = forgeMode ? emptyForgeResult() : { new_tag: "", previous_tag: "", bump: "none", version: "", major: "", minor: "", patch: "", changelog: "", commits: [] };
+        out.write(`${JSON.stringify(release ?? none, null, 2)}\n`);
+    } else if (!release) {
+        out.write("No release: no commit since the latest tag matches a bump rule.\n");
+    } else {
+        out.write(`Latest tag: ${release.previous_tag || "none"}\nNext tag: ${release.new_tag} (${release.bump})\n`);
+        if (release.commits.length) {
+            out.write(`Commits causing the bump:\n${release.commits.map(line => `- ${line}`).join("\n")}\n`);
+        }
+        out.write(`\n${release.changelog}`);
+    }
+    return 0;
+}
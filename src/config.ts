@@ -0,0 +1,138 @@
+import { parse as parseYaml } from "yaml";
+
+// Looked up on the base branch in this order when config_file is not set
+export const CONFIG_FILES = [".release-tag-commit.yml", ".release-tag-commit.yaml", ".release-tag-commit.json"];
+
+// boolean: true/false; string: plain text; mode: a string that may also be true/false;
+// lines: multi-line input, also as list or "key: value" mapping
+type ConfigKind = "boolean" | "string" | "mode" | "lines";
+
+// Options the config file may hold. Keys match the action inputs; per-run inputs (token, force_bump, dry_run, tag signing) are left out.
+export const CONFIG_SCHEMA: Record<string, ConfigKind> = {
+    v_prefix: "boolean",
+    tag_format: "string",
+    tag_scope: "string",
+    update_floating_tags: "mode",
+    mismatch_policy: "string",
+    create_release: "boolean",
+    mark_release_as_latest: "boolean",
+    generate_release_notes: "boolean",
+    comment_pr: "boolean",
+    commit_source: "string",
+    semantic_check: "boolean",
+    require_bump: "boolean",
+    release_labels: "lines",
+    label_mode: "string",
+    prerelease: "string",
+    branches: "lines",
+    bump_rules: "lines",
+    packages: "lines",
+    release_notes: "string",
+    changelog_template: "string",
+    changelog_file: "string",
+    release_assets: "lines",
+    version_files: "lines",
+    release_pr: "boolean",
+    release_pr_branch: "string",
+    release_checksums: "boolean",
+    comment_template: "string",
+    no_bump_comment_template: "string",
+    tag_type: "string",
+    tag_message: "string",
+    tagger_name: "string",
+    tagger_email: "string",
+};
+
+// Used when neither the input nor the config file sets a value
+export const INPUT_DEFAULTS: Record<string, string> = {
+    v_prefix: "false",
+    create_release: "false",
+    mark_release_as_latest: "true",
+    generate_release_notes: "true",
+    comment_pr: "false",
+    commit_source: "commits",
+    semantic_check: "false",
+    require_bump: "false",
+    label_mode: "override",
+    release_notes: "github",
+    tag_type: "lightweight",
+    tag_scope: "repository",
+    mismatch_policy: "retry",
+    release_checksums: "true",
+    release_pr: "false",
+    release_pr_branch: "release-tag-commit/release",
+};
+
+// Config values converted to the strings the matching inputs would hold
+export type RepoConfig = Record<string, string>;
+
+function describeKind(kind: ConfigKind) {
+    if (kind === "mode") {
+        return "a string or a boolean";
+    }
+    return kind === "lines" ? "a string, a list of strings or a mapping of strings" : `a ${kind}`;
+}
+
+function isScalar(value: unknown): value is string | number {
+    return typeof value === "string" || typeof value === "number";
+}
+
+function normalizeValue(kind: ConfigKind, value: unknown): string | null {
+    if (kind === "boolean" || (kind === "mode" && typeof value === "boolean")) {
+        return typeof value === "boolean" ? String(value) : null;
+    }
+    if (isScalar(value)) {
+        return String(value);
+    }
+    if (kind === "lines" && Array.isArray(value) && value.every(isScalar)) {
+        return value.join("\n");
+    }
+    if (kind === "lines" && value && typeof value === "object" && !Array.isArray(value)) {
+        const entries = Object.entries(value);
+        if (entries.every(([, v]) => isScalar(v))) {
+            return entries.map(([k, v]) => `${k}: ${v}`).join("\n");
+        }
+    }
+    return null;
+}
+
+// Parses and validates the YAML or JSON config file; every problem is listed in one error
+export function parseRepoConfig(content: string, path: string): RepoConfig {
+    let data: unknown;
+    try {
+        data = path.endsWith(".json") ? JSON.parse(content) : parseYaml(content);
+    } catch (err: any) {
+        throw new Error(`Invalid config file ${path}: ${err?.message ?? String(err)}`);
+    }
+    if (data === null || data === undefined) {
+        return {};
+    }
+    if (typeof data !== "object" || Array.isArray(data)) {
+        throw new Error(`Invalid config file ${path}: expected a mapping of options at the top level.`);
+    }
+
+    const config: RepoConfig = {};
+    const problems: string[] = [];
+    for (const [key, value] of Object.entries(data)) {
+        const kind = CONFIG_SCHEMA[key];
+        if (!kind) {
+            problems.push(`Unknown key "${key}".`);
+            continue;
+        }
+        const normalized = normalizeValue(kind, value);
+        if (normalized === null) {
+            problems.push(`"${key}" must be ${describeKind(kind)}.`);
+            continue;
+        }
+        config[key] = normalized;
+    }
+    if (problems.length) {
+        throw new Error(`Invalid config file ${path}:\n${problems.map(p => `- ${p}`).join("\n")}`);
+    }
+    return config;
+}
+
+// Inputs override the config file, which overrides the defaults
+export function resolveInput(name: string, inputValue: string, config: RepoConfig) {
+    return inputValue || config[name] || INPUT_DEFAULTS[name] || "";
+}
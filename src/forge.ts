@@ -0,0 +1,206 @@
+import { BranchChannel, checkIncreaseInRange } from "./branches.js";
+import { ChangelogLinks, renderChangelog } from "./changelog.js";
+import type { LocalRelease } from "./cli.js";
+import {
+    analyzeCommits,
+    channelTags,
+    CommitInput,
+    describeBumpCommits,
+    formatTagToString,
+    isTagBelow,
+    LatestTag,
+    latestTagOf,
+    nextVersion,
+    PREVIEW_STATUS,
+    ReleaseUnit,
+    renderCommentTemplate,
+    renderUnitComment,
+    TagNaming,
+    Version,
+    VersionIncrease,
+} from "./index.js";
+import { BumpRule } from "./rules.js";
+
+export interface ForgeRelease {
+    tag: string;
+    sha: string;
+    name: string;
+    // the changelog; not sent when the forge generates the notes
+    body: string;
+    prerelease: boolean;
+    // let the forge write the notes instead of body, where it can (GitHub)
+    generateNotes?: boolean;
+    makeLatest?: boolean;
+    // GitHub only: published later, once the assets are uploaded
+    draft?: boolean;
+}
+
+export interface ForgeTag {
+    name: string;
+    // commit the tag points at
+    sha: string;
+}
+
+export interface ForgeReleaseInfo {
+    url: string;
+    // commit SHA (or branch) the release points at
+    target: string;
+    draft: boolean;
+}
+
+// What the release flow needs from a forge. GitHub and GitLab implement it; the versioning core is shared.
+export interface ForgeProvider {
+    readonly name: string;
+    // web URLs of commits, pull/merge requests and compares, for the changelog
+    readonly links: ChangelogLinks;
+    listTags(): Promise<ForgeTag[]>;
+    // commits after base (a tag) up to head; the whole history of head without base
+    listCommits(base: string | null, head: string): Promise<CommitInput[]>;
+    // null if the commit doesn't exist
+    getCommit(sha: string): Promise<CommitInput | null>;
+    // commits and changed files of a pull/merge request
+    listChangeCommits(number: number): Promise<CommitInput[]>;
+    listChangeFiles(number: number): Promise<string[]>;
+    // commit the tag points at, null if it doesn't exist
+    getTagRef(tag: string): Promise<string | null>;
+    createTagRef(tag: string, sha: string): Promise<void>;
+    // release of the tag (drafts included), null if there is none
+    getRelease(tag: string): Promise<ForgeReleaseInfo | null>;
+    createRelease(release: ForgeRelease): Promise<ForgeReleaseInfo>;
+    // creates or updates the comment with the marker on a pull/merge request
+    upsertComment(number: number, body: string, options?: { marker?: string; dryRun?: boolean }): Promise<void>;
+}
+
+export interface ForgeReleaseOptions {
+    sha: string;
+    naming: TagNaming;
+    bumpRules: BumpRule[];
+    changelogTemplate: string;
+    prerelease?: string;
+    // channel of the branch with a branches setting: its maintenance range and no pre-release tags of other channels
+    channel?: BranchChannel | null;
+    forcedBump?: VersionIncrease | null;
+    createRelease?: boolean;
+    // release_notes github: the forge writes the notes where it can (GitHub), otherwise the changelog is the body
+    generateNotes?: boolean;
+    // mark_release_as_latest; stable releases only by default
+    makeLatest?: boolean;
+    // preview on an open pull/merge request: comment the next tag, don't tag
+    changeNumber?: number;
+    // shown in the preview comment like in the Action's
+    vPrefix?: boolean;
+    tagFormat?: string | null;
+    commentTemplate?: string;
+    dryRun?: boolean;
+    log?: (message: string) => void;
+}
+
+export interface ForgeReleaseResult extends LocalRelease {
+    tag_created: boolean;
+    release_url: string;
+}
+
+export function emptyForgeResult(): ForgeReleaseResult {
+    return { new_tag: "", previous_tag: "", bump: "none", version: "", major: "", minor: "", patch: "", changelog: "", commits: [], tag_created: false, release_url: "" };
+}
+
+// The release flow outside GitHub Actions: next tag from the forge's tags and commits, then tag, release and comment
+export async function releaseOnForge(forge: ForgeProvider, options: ForgeReleaseOptions): Promise<ForgeReleaseResult> {
+    const log = options.log ?? (() => undefined);
+    const result = emptyForgeResult();
+    const { channel, naming } = options;
+    const own = (names: string[]) => channel ? channelTags(names, naming, options.prerelease) : names;
+    const tags = await forge.listTags();
+    const tagNames = own(tags.map(t => t.name));
+    // re-run: a tag already on the commit (whether or not it is the highest) and its release are verified
+    // instead of allocating the next version
+    const onCommit = options.changeNumber ? [] : tags.filter(t => t.sha === options.sha).map(t => t.name);
+    const rerunTag = latestTagOf(own(onCommit), naming, channel?.range);
+    let latest: LatestTag;
+    if (rerunTag.found) {
+        log(`Tag ${rerunTag.name} already points at ${options.sha}; re-run, verifying it instead of allocating the next version.`);
+        latest = latestTagOf(tagNames.filter(name => isTagBelow(name, naming, rerunTag.parsed)), naming, channel?.range);
+    } else {
+        latest = latestTagOf(tagNames, naming, channel?.range);
+    }
+    const rerunVersion: Version | undefined = rerunTag.found ? rerunTag.parsed : undefined;
+    const analysis = analyzeCommits(await forge.listCommits(latest.found ? latest.name : null, options.sha), options.bumpRules);
+    const bump = options.forcedBump ?? analysis.bump;
+    if (!bump) {
+        log(`No commit since ${latest.found ? latest.name : "the start of the history"} matches a bump rule.`);
+        return result;
+    }
+    const rangeError = channel ? checkIncreaseInRange(bump, channel) : null;
+    if (rangeError) {
+        throw new Error(rangeError);
+    }
+
+    const version = rerunVersion ?? nextVersion(latest.parsed, bump, options.prerelease);
+    const [major, minor, patch, ...identifiers] = version;
+    const tag = options.naming.render(version);
+    Object.assign(result, {
+        new_tag: tag,
+        previous_tag: latest.found ? latest.name : "",
+        bump,
+        version: formatTagToString(major, minor, patch, false, identifiers),
+        major: String(major),
+        minor: String(minor),
+        patch: String(patch),
+        changelog: renderChangelog(analysis.commits, { links: forge.links, tag, previousTag: latest.found ? latest.name : undefined }, options.changelogTemplate),
+        commits: options.forcedBump ? [] : describeBumpCommits(analysis.commits),
+    });
+    log(`Latest tag: ${latest.found ? latest.name : "none"}, Next tag: ${tag}`);
+
+    // same comment as the Action's preview
+    if (options.changeNumber) {
+        const unit: ReleaseUnit = { latest, analysis, versionToIncrease: bump, bumpCommits: result.commits, version, tagAsString: tag, changelog: result.changelog, floatingTags: [] };
+        const body = renderUnitComment(unit, !!options.forcedBump, !!options.vPrefix, options.prerelease, null, options.tagFormat) + `- Status: ${PREVIEW_STATUS}`;
+        await forge.upsertComment(options.changeNumber, renderCommentTemplate(options.commentTemplate ?? "", {
+            body,
+            tags: tag,
+            bump,
+            status: PREVIEW_STATUS,
+            warning: "",
+        }), { dryRun: options.dryRun });
+        return result;
+    }
+
+    // only a tag on this commit counts as done
+    const existing = await forge.getTagRef(tag);
+    if (existing && existing !== options.sha) {
+        throw new Error(`Tag ${tag} already points at ${existing}, not ${options.sha}.`);
+    }
+    if (existing) {
+        log(`Tag ${tag} already exists on ${options.sha}.`);
+    } else if (options.dryRun) {
+        log(`[dry-run] Would create tag ${tag} on ${options.sha}.`);
+    } else {
+        await forge.createTagRef(tag, options.sha);
+        result.tag_created = true;
+        log(`New tag created ${tag}`);
+    }
+
+    // a re-run after a failed release call creates the missing release
+    if (options.createRelease) {
+        const release = await forge.getRelease(tag);
+        if (release) {
+            result.release_url = release.url;
+            log(`Release for tag ${tag} already exists: ${release.url}`);
+        } else if (options.dryRun) {
+            log(`[dry-run] Would create release ${tag} on ${options.sha}.`);
+        } else {
+            const created = await forge.createRelease({
+                tag,
+                sha: options.sha,
+                name: tag,
+                body: result.changelog,
+                prerelease: !!options.prerelease,
+                generateNotes: options.generateNotes,
+                makeLatest: options.makeLatest ?? !options.prerelease,
+            });
+            result.release_url = created.url;
+            log(`Release created: ${created.url}`);
+        }
+    }
+    return result;
+}
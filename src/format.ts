@@ -0,0 +1,98 @@
+import type { Version } from "./index.js";
+
+const placeholders = ["major", "minor", "patch", "version", "package", "run_number"];
+const prereleasePattern = "[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*";
+
+// Values of the tag_format placeholders that don't come from the version
+export interface TagFormatValues {
+    package?: string;
+    runNumber?: number;
+}
+
+function escapeRegExp(value: string) {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Validates the tag_format input; empty means the default format (v_prefix and package tag prefix)
+export function parseTagFormat(value: string): string | null {
+    const format = (value || "").trim();
+    if (!format) {
+        return null;
+    }
+    const names = [...format.matchAll(/\{(\w+)\}/g)].map(m => m[1]);
+    const unknown = names.find(n => !placeholders.includes(n));
+    if (unknown) {
+        throw new Error(`Invalid tag_format "${value}": unknown placeholder {${unknown}}. Expected ${placeholders.map(p => `{${p}}`).join(", ")}.`);
+    }
+    const count = (name: string) => names.filter(n => n === name).length;
+    const byVersion = count("version") === 1 && count("major") + count("minor") + count("patch") === 0;
+    const byParts = count("version") === 0 && count("major") === 1 && count("minor") === 1 && count("patch") === 1;
+    if ((!byVersion && !byParts) || count("package") > 1 || count("run_number") > 1) {
+        throw new Error(`Invalid tag_format "${value}": use {version} or each of {major}, {minor} and {patch} exactly once.`);
+    }
+    return format;
+}
+
+// Renders a tag name. Pre-release identifiers follow the patch number, e.g. release-1.3.0-rc.0
+export function renderTagFormat(format: string, version: Version, values: TagFormatValues = {}) {
+    const [major, minor, patch, ...identifiers] = version;
+    const prerelease = identifiers.length ? `-${identifiers.join(".")}` : "";
+    const map: Record<string, string> = {
+        major: String(major),
+        minor: String(minor),
+        patch: `${patch}${prerelease}`,
+        version: `${major}.${minor}.${patch}${prerelease}`,
+        package: values.package ?? "",
+        run_number: String(values.runNumber ?? 0),
+    };
+    return format.replace(/\{(\w+)\}/g, (match, key: string) => key in map ? map[key] : match);
+}
+
+// Renders a floating tag like v1 or v1.4: {version} becomes the given version parts. Null for templates without {version}.
+export function renderFloatingTagFormat(format: string, parts: number[], values: TagFormatValues = {}) {
+    if (!format.includes("{version}")) {
+        return null;
+    }
+    return renderTagFormat(format.replace("{version}", parts.join(".")), [0, 0, 0], values);
+}
+
+// Parses a tag name with the same template; tags of another format (or package) give null
+export function matchTagFormat(format: string, tagName: string, values: TagFormatValues = {}): Version | null {
+    const groups: string[] = [];
+    let source = "";
+    let last = 0;
+    for (const m of format.matchAll(/\{(\w+)\}/g)) {
+        source += escapeRegExp(format.slice(last, m.index));
+        last = m.index! + m[0].length;
+        switch (m[1]) {
+            case "version":
+                source += `(\\d+)\\.(\\d+)\\.(\\d+)(?:-(${prereleasePattern}))?`;
+                groups.push("major", "minor", "patch", "prerelease");
+                break;
+            case "patch":
+                source += `(\\d+)(?:-(${prereleasePattern}))?`;
+                groups.push("patch", "prerelease");
+                break;
+            case "major":
+            case "minor":
+                source += "(\\d+)";
+                groups.push(m[1]);
+                break;
+            case "run_number":
+                source += "\\d+";
+                break;
+            case "package":
+                source += escapeRegExp(values.package ?? "");
+                break;
+        }
+    }
+    source += escapeRegExp(format.slice(last));
+
+    const match = new RegExp(`^${source}$`).exec((tagName || "").trim());
+    if (!match) {
+        return null;
+    }
+    const group = (name: string) => match[groups.indexOf(name) + 1];
+    const prerelease = group("prerelease") ? group("prerelease").split(".").map(id => /^\d+$/.test(id) ? Number(id) : id) : [];
+    return [Number(group("major")), Number(group("minor")), Number(group("patch")), ...prerelease];
+}
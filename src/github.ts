@@ -0,0 +1,165 @@
+import * as core from "@actions/core";
+import * as github from "@actions/github";
+import { apiErrorKind } from "./api.js";
+import { githubLinks } from "./changelog.js";
+import type { ForgeProvider, ForgeRelease, ForgeReleaseInfo, ForgeTag } from "./forge.js";
+import type { CommitInput } from "./index.js";
+
+export type Octokit = ReturnType<typeof github.getOctokit>;
+
+// Logs a mutating call that is skipped because of dry_run
+export function logDryRun(description: string) {
+    core.info(`[dry-run] Would ${description}`);
+}
+
+export async function upsertPrComment(octokit: any, owner: string, repo: string, prNumber: number, body: string, marker = "release-tag-commit-bot", dryRun = false) {
+    const markerStart = `<!-- ${marker}:start -->`;
+    const markerEnd = `<!-- ${marker}:end -->`;
+    const wrapped = `${markerStart}\n${body}\n${markerEnd}`;
+
+    const { data: comments } = await octokit.rest.issues.listComments({ owner, repo, issue_number: prNumber, per_page: 100 });
+    const existing = comments.find((c: any) => typeof c.body === 'string' && c.body.includes(markerStart) && c.user?.type === 'Bot');
+
+    if (dryRun) {
+        logDryRun(`${existing ? `update comment ${existing.id}` : "create a comment"} on PR #${prNumber}:\n${body}`);
+    } else if (existing) {
+        await octokit.rest.issues.updateComment({ owner, repo, comment_id: existing.id, body: wrapped });
+    } else {
+        await octokit.rest.issues.createComment({ owner, repo, issue_number: prNumber, body: wrapped });
+    }
+}
+
+// Every tag with the commit it points at (annotated tags are dereferenced by the API)
+export async function listRepoTags(octokit: Octokit, owner: string, repo: string): Promise<ForgeTag[]> {
+    const allTags = await octokit.paginate(
+        octokit.rest.repos.listTags,
+        { owner, repo, per_page: 100 }
+    );
+    return allTags.filter(t => !!t?.name).map(t => ({ name: t.name, sha: t.commit?.sha ?? "" }));
+}
+
+// Commit a tag points at (annotated tags are dereferenced), null if the tag doesn't exist
+export async function resolveTagCommit(octokit: Octokit, owner: string, repo: string, tag: string): Promise<string | null> {
+    let ref: any;
+    try {
+        ({ data: ref } = await octokit.rest.git.getRef({ owner, repo, ref: `tags/${tag}` }));
+    } catch (err: any) {
+        if (apiErrorKind(err) === "not_found") {
+            return null;
+        }
+        throw err;
+    }
+    if (ref.object?.type === "tag") {
+        const { data: tagObject } = await octokit.rest.git.getTag({ owner, repo, tag_sha: ref.object.sha });
+        return tagObject.object.sha;
+    }
+    return ref.object?.sha ?? null;
+}
+
+// Commits between the base tag and the given sha (whole history of the sha without a base)
+export async function listCommitsSince(octokit: Octokit, owner: string, repo: string, base: string | null, sha: string): Promise<CommitInput[]> {
+    if (!base) {
+        const history = await octokit.paginate(
+            octokit.rest.repos.listCommits,
+            { owner, repo, sha, per_page: 100 }
+        );
+        return history.map(c => ({ sha: c?.sha, message: c?.commit?.message || "" }));
+    }
+    const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+        owner,
+        repo,
+        basehead: `${base}...${sha}`,
+        per_page: 250,
+    });
+    return (data.commits || []).map(c => ({ sha: c?.sha, message: c?.commit?.message || "" }));
+}
+
+// Release of the tag, drafts included: getReleaseByTag never returns drafts, so those are looked up in the list
+export async function findReleaseByTag(octokit: Octokit, owner: string, repo: string, tag: string) {
+    try {
+        const { data } = await octokit.rest.repos.getReleaseByTag({ owner, repo, tag });
+        return data;
+    } catch (err: any) {
+        if (apiErrorKind(err) !== "not_found") {
+            throw err;
+        }
+    }
+    const releases = await octokit.paginate(octokit.rest.repos.listReleases, { owner, repo, per_page: 100 });
+    return releases.find(r => r.draft && r.tag_name === tag) ?? null;
+}
+
+// GitHub releases also carry what the Action needs to finish a draft
+export interface GitHubRelease extends ForgeReleaseInfo {
+    id: number;
+    assets: Array<{ id: number; name: string; state: string }>;
+}
+
+export interface GitHubProvider extends ForgeProvider {
+    getRelease(tag: string): Promise<GitHubRelease | null>;
+    createRelease(release: ForgeRelease): Promise<GitHubRelease>;
+}
+
+function toRelease(data: any): GitHubRelease {
+    return { id: data.id, url: data.html_url, target: data.target_commitish ?? "", draft: !!data.draft, assets: data.assets ?? [] };
+}
+
+// The GitHub side of the forge interface. The Action uses it for the calls every forge has;
+// annotated tags, floating tags, release assets and release PRs stay GitHub only.
+export function createGitHubProvider(octokit: Octokit, owner: string, repo: string, serverUrl = "https://github.com"): GitHubProvider {
+    return {
+        name: "github",
+        links: githubLinks(`${serverUrl}/${owner}/${repo}`),
+        listTags: () => listRepoTags(octokit, owner, repo),
+        listCommits: (base, head) => listCommitsSince(octokit, owner, repo, base, head),
+        getCommit: async sha => {
+            try {
+                const { data } = await octokit.rest.repos.getCommit({ owner, repo, ref: sha });
+                return { sha, message: data.commit.message || "" };
+            } catch (err: any) {
+                if (apiErrorKind(err) === "not_found") {
+                    return null;
+                }
+                throw err;
+            }
+        },
+        listChangeCommits: async number => {
+            const commits = await octokit.paginate(
+                octokit.rest.pulls.listCommits,
+                { owner, repo, pull_number: number, per_page: 100 }
+            );
+            return commits.map(c => ({ sha: c?.sha, message: c?.commit?.message || "" }));
+        },
+        listChangeFiles: async number => {
+            const files = await octokit.paginate(
+                octokit.rest.pulls.listFiles,
+                { owner, repo, pull_number: number, per_page: 100 }
+            );
+            return files.map(f => f.filename);
+        },
+        getTagRef: tag => resolveTagCommit(octokit, owner, repo, tag),
+        createTagRef: async (tag, sha) => {
+            await octokit.rest.git.createRef({ owner, repo, ref: `refs/tags/${tag}`, sha });
+        },
+        getRelease: async tag => {
+            const data = await findReleaseByTag(octokit, owner, repo, tag);
+            return data ? toRelease(data) : null;
+        },
+        createRelease: async (release: ForgeRelease) => {
+            const { data } = await octokit.rest.repos.createRelease({
+                owner,
+                repo,
+                tag_name: release.tag,
+                target_commitish: release.sha,
+                name: release.name,
+                ...(release.generateNotes
+                    ? { generate_release_notes: true }
+                    : { body: release.body || undefined, generate_release_notes: false }),
+                draft: !!release.draft,
+                prerelease: release.prerelease,
+                ...(release.makeLatest !== undefined ? { make_latest: release.makeLatest ? "true" as const : "false" as const } : {}),
+            });
+            return toRelease(data);
+        },
+        upsertComment: (number, body, options = {}) => upsertPrComment(octokit, owner, repo, number, body, options.marker, options.dryRun),
+    };
+}
@@ -0,0 +1,120 @@
+import type { ForgeProvider, ForgeRelease, ForgeReleaseInfo } from "./forge.js";
+import type { CommitInput } from "./index.js";
+
+export interface GitLabOptions {
+    // REST API root, e.g. https://gitlab.example.com/api/v4 (CI_API_V4_URL)
+    apiUrl: string;
+    // numeric id or "group/project" path (CI_PROJECT_ID)
+    project: string;
+    token: string;
+    // web URL of the project for changelog links (CI_PROJECT_URL)
+    webUrl: string;
+    log?: (message: string) => void;
+}
+
+// The GitLab side of the forge interface on the REST API v4; comments are merge request notes
+export function createGitLabProvider(options: GitLabOptions, fetchImpl: typeof fetch = fetch): ForgeProvider {
+    const base = `${options.apiUrl.replace(/\/$/, "")}/projects/${encodeURIComponent(options.project)}`;
+    const log = options.log ?? (() => undefined);
+
+    const request = async (method: string, path: string, body?: unknown) => {
+        const res = await fetchImpl(`${base}${path}`, {
+            method,
+            headers: { "PRIVATE-TOKEN": options.token, "content-type": "application/json" },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        if (!res.ok) {
+            const detail = (await res.text()).slice(0, 200);
+            const hint = res.status === 401 || res.status === 403
+                ? " The token needs the api scope and a role that may push tags (Maintainer for protected tags)."
+                : "";
+            const error: any = new Error(`GitLab ${method} ${path} failed with ${res.status}: ${detail}.${hint}`);
+            error.status = res.status;
+            throw error;
+        }
+        return { data: await res.json() as any, headers: res.headers };
+    };
+
+    // follows the x-next-page header
+    const paginate = async (path: string) => {
+        const items: any[] = [];
+        let page = "1";
+        while (page) {
+            const { data, headers } = await request("GET", `${path}${path.includes("?") ? "&" : "?"}per_page=100&page=${page}`);
+            items.push(...data);
+            page = headers.get("x-next-page") ?? "";
+        }
+        return items;
+    };
+
+    // null for a 404
+    const find = async (path: string) => {
+        try {
+            return (await request("GET", path)).data;
+        } catch (err: any) {
+            if (err?.status === 404) {
+                return null;
+            }
+            throw err;
+        }
+    };
+
+    const toCommit = (c: any): CommitInput => ({ sha: c.id, message: c.message || "" });
+    const webUrl = options.webUrl.replace(/\/$/, "");
+    // GitLab has no draft releases
+    const toRelease = (data: any, tag: string): ForgeReleaseInfo => ({
+        url: data._links?.self ?? `${webUrl}/-/releases/${encodeURIComponent(tag)}`,
+        target: data.commit?.id ?? "",
+        draft: false,
+    });
+
+    return {
+        name: "gitlab",
+        // GitLab puts them below /-/ and calls pull requests merge requests
+        links: {
+            commit: sha => `${webUrl}/-/commit/${sha}`,
+            change: number => `${webUrl}/-/merge_requests/${number}`,
+            compare: (from, to) => `${webUrl}/-/compare/${from}...${to}`,
+        },
+        listTags: async () => (await paginate("/repository/tags")).map(t => ({ name: t.name as string, sha: t.commit?.id ?? "" })),
+        listCommits: async (from, head) => {
+            if (!from) {
+                return (await paginate(`/repository/commits?ref_name=${encodeURIComponent(head)}`)).map(toCommit);
+            }
+            const { data } = await request("GET", `/repository/compare?from=${encodeURIComponent(from)}&to=${encodeURIComponent(head)}`);
+            return (data.commits || []).map(toCommit);
+        },
+        getCommit: async sha => {
+            const commit = await find(`/repository/commits/${encodeURIComponent(sha)}`);
+            return commit ? toCommit(commit) : null;
+        },
+        listChangeCommits: async number => (await paginate(`/merge_requests/${number}/commits`)).map(toCommit),
+        listChangeFiles: async number => (await paginate(`/merge_requests/${number}/diffs`)).map(d => d.new_path as string),
+        getTagRef: async tag => (await find(`/repository/tags/${encodeURIComponent(tag)}`))?.commit?.id ?? null,
+        createTagRef: async (tag, sha) => {
+            await request("POST", "/repository/tags", { tag_name: tag, ref: sha });
+        },
+        getRelease: async tag => {
+            const release = await find(`/releases/${encodeURIComponent(tag)}`);
+            return release ? toRelease(release, tag) : null;
+        },
+        // GitLab has no pre-release flag, draft or generated notes; the tag name carries the channel and the changelog is the body
+        createRelease: async (release: ForgeRelease) => {
+            const { data } = await request("POST", "/releases", { tag_name: release.tag, name: release.name, description: release.body, ref: release.sha });
+            return toRelease(data, release.tag);
+        },
+        upsertComment: async (number, body, { marker = "release-tag-commit-bot", dryRun = false } = {}) => {
+            const markerStart = `<!-- ${marker}:start -->`;
+            const wrapped = `${markerStart}\n${body}\n<!-- ${marker}:end -->`;
+            const notes = await paginate(`/merge_requests/${number}/notes`);
+            const existing = notes.find(n => typeof n.body === "string" && n.body.includes(markerStart));
+            if (dryRun) {
+                log(`[dry-run] Would ${existing ? `update note ${existing.id}` : "create a note"} on merge request !${number}:\n${body}`);
+            } else if (existing) {
+                await request("PUT", `/merge_requests/${number}/notes/${existing.id}`, { body: wrapped });
+            } else {
+                await request("POST", `/merge_requests/${number}/notes`, { body: wrapped });
+            }
+        },
+    };
+}
@@ -0,0 +1,8 @@
+// Minimal glob matching for branch names and file paths: "*" matches within one path segment, "**" across segments
+export function matchGlob(pattern: string, value: string) {
+    const source = pattern
+        .split("**")
+        .map(part => part.split("*").map(p => p.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^/]*"))
+        .join(".*");
+    return new RegExp(`^${source}$`).test(value);
+}
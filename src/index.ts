@@ -1,15 +1,40 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
+import { apiErrorKind, installApiLayer, sleep } from "./api.js";
+import { createGitHubProvider, GitHubProvider, logDryRun, Octokit } from "./github.js";
+import { DEFAULT_CHANGELOG_TEMPLATE, prependChangelog, renderChangelog } from "./changelog.js";
+import { assetUploads, findReleaseAssets, parseAssetPatterns, ReleaseAsset } from "./assets.js";
+import { CONFIG_FILES, parseRepoConfig, RepoConfig, resolveInput } from "./config.js";
+import { matchTagFormat, parseTagFormat, renderFloatingTagFormat, renderTagFormat } from "./format.js";
+import { applyLabelOverride, LabelOverride, parseLabelMode, parseReleaseLabels, resolveLabelOverride } from "./labels.js";
+import { LintResult, lintPullRequest, SEMANTIC_CHECK_NAME } from "./lint.js";
+import { bumpVersionFile, parseVersionFiles, VersionFile } from "./manifests.js";
+import { PackageConfig, packageContainsFile, packageTouched, parsePackages } from "./packages.js";
+import { AnnotatedTagOptions, DEFAULT_TAGGER, parseTagType, renderTagMessage, signedTagMessage, validateSignature } from "./tags.js";
+import { BumpRule, DEFAULT_BUMP_RULES, describeBumpKeywords, parseBumpRules, resolveBumpLevel } from "./rules.js";
+import { BranchChannel, branchFromRef, checkIncreaseInRange, isWithinRange, MaintenanceRange, parseBranchRules, resolveBranchChannel } from "./branches.js";
 
-// based on the retrieved tags
-export function parseTagFromName(tagName: string): number[] | null {
-    const regex = new RegExp(/^(?:v)?(\d+)\.(\d+)\.(\d+)$/);
-    const m = regex.exec((tagName || "").trim());
-    return m ? [Number(m[1]), Number(m[2]), Number(m[3])] : null;
+// [major, minor, patch, ...pre-release identifiers], e.g. 1.3.0-rc.2 → [1, 3, 0, "rc", 2]
+export type Version = [number, number, number, ...Array<string | number>];
+
+// based on the retrieved tags (build metadata after "+" is ignored).
+// With a tag prefix (e.g. "api@") only tags of that package are parsed.
+export function parseTagFromName(tagName: string, tagPrefix = ""): Version | null {
+    const regex = new RegExp(/^(?:v)?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/);
+    const name = (tagName || "").trim();
+    if (!name.startsWith(tagPrefix)) {
+        return null;
+    }
+    const m = regex.exec(name.slice(tagPrefix.length));
+    if (!m) {
+        return null;
+    }
+    const prerelease = m[4] ? m[4].split(".").map(id => /^\d+$/.test(id) ? Number(id) : id) : [];
+    return [Number(m[1]), Number(m[2]), Number(m[3]), ...prerelease];
 }
 
-// Helper function to compare Tags. 
-export function compareTags(tag: number[], tagOther: number[]) {
+// Helper function to compare Tags, following SemVer 2.0 precedence for pre-release identifiers.
+export function compareTags(tag: ReadonlyArray<number | string>, tagOther: ReadonlyArray<number | string>) {
     for (let i = 0; i < 3; i++) {
         const ver = tag[i];
         const other = tagOther[i];
@@ -20,29 +45,131 @@ export function compareTags(tag: number[], tagOther: number[]) {
             return -1;
         }
     }
-    return 0;
+
+    // a version without pre-release identifiers has higher precedence
+    const pre = tag.slice(3);
+    const preOther = tagOther.slice(3);
+    if (pre.length === 0 || preOther.length === 0) {
+        return Math.sign(preOther.length - pre.length);
+    }
+    for (let i = 0; i < Math.min(pre.length, preOther.length); i++) {
+        const id = pre[i];
+        const other = preOther[i];
+        if (id === other) {
+            continue;
+        }
+        // numeric identifiers always have lower precedence than alphanumeric ones
+        if (typeof id !== typeof other) {
+            return typeof id === "number" ? -1 : 1;
+        }
+        return id > other ? 1 : -1;
+    }
+    return Math.sign(pre.length - preOther.length);
 }
 
-// Determines what needs to increase
-export function detectVersionIncrease(text: string) {
-    const commitLowerCase = text.toLowerCase();
-    const header = commitLowerCase.split(/\r?\n/, 1)[0];
+export type VersionIncrease = "major" | "minor" | "patch";
 
-    const breackingChangeInHead = new RegExp(/^[a-z]+(?:\([^)]+\))?!:\s/i);
-    const featExp = new RegExp(/^feat(?:\([^)]+\))?:\s/i);
-    const fixExp = new RegExp(/^fix(?:\([^)]+\))?:\s/i);
-    const breakingChangeInText = new RegExp(/^\s*breaking changes?:?/mi);
+export interface CommitInput {
+    sha?: string;
+    message: string;
+    files?: string[];
+}
 
-    if (breackingChangeInHead.test(header) || breakingChangeInText.test(commitLowerCase)) {
-        return "major";
+export interface CommitFooter {
+    token: string;
+    value: string;
+}
+
+// Structured result of a single conventional commit
+export interface ParsedCommit {
+    sha?: string;
+    header: string;
+    type: string | null;
+    scope: string | null;
+    breaking: boolean;
+    subject: string;
+    footers: CommitFooter[];
+    bump: VersionIncrease | null;
+}
+
+export interface CommitAnalysis {
+    bump: VersionIncrease | null;
+    commits: ParsedCommit[];
+}
+
+const increaseRank: Record<VersionIncrease, number> = { patch: 1, minor: 2, major: 3 };
+
+// Returns the bigger of both increases (null means no bump)
+export function maxVersionIncrease(a: VersionIncrease | null, b: VersionIncrease | null): VersionIncrease | null {
+    if (!a) {
+        return b;
     }
-    if (featExp.test(header)) {
-        return "minor";
+    if (!b) {
+        return a;
+    }
+    return increaseRank[a] >= increaseRank[b] ? a : b;
+}
+
+// Parses one commit message into type, scope, breaking flag, subject and footers.
+// The bump follows the given rules; breaking changes are always major.
+export function parseCommit(message: string, sha?: string, rules: BumpRule[] = DEFAULT_BUMP_RULES): ParsedCommit {
+    const text = (message || "").trim();
+    const [header, ...bodyLines] = text.split(/\r?\n/);
+
+    const headerExp = new RegExp(/^([a-z]+)(?:\(([^)]+)\))?(!)?:\s+(.*)$/i);
+    const gitRevertExp = new RegExp(/^Revert "(.*)"$/);
+    const footerExp = new RegExp(/^(BREAKING[ -]CHANGES?|[A-Za-z][\w-]*)(?::\s*|\s#)(.*)$/i);
+    const breakingChangeInText = new RegExp(/^\s*breaking[ -]changes?:?/mi);
+
+    const m = headerExp.exec(header);
+    const revert = m ? null : gitRevertExp.exec(header);
+    const type = m ? m[1].toLowerCase() : revert ? "revert" : null;
+    const scope = m && m[2] ? m[2] : null;
+    const subject = m ? m[4].trim() : revert ? revert[1] : header.trim();
+
+    const footers: CommitFooter[] = [];
+    for (const line of bodyLines) {
+        const f = footerExp.exec(line);
+        if (f) {
+            footers.push({ token: f[1], value: f[2].trim() });
+        }
     }
-    if (fixExp.test(header)) {
-        return "patch";
+
+    const breaking = !!(m && m[3]) || breakingChangeInText.test(text);
+
+    let bump: VersionIncrease | null = null;
+    if (breaking) {
+        bump = "major";
+    } else {
+        const level = resolveBumpLevel(type, scope, rules);
+        if (level === "inherit") {
+            // e.g. "revert: feat(api): add x" follows the type of the reverted commit
+            bump = subject !== header ? parseCommit(subject, undefined, rules).bump : null;
+        } else if (level !== "none") {
+            bump = level;
+        }
     }
-    return null;
+
+    return { sha, header, type, scope, breaking, subject, footers, bump };
+}
+
+// Determines what needs to increase for a single commit message
+export function detectVersionIncrease(text: string, rules: BumpRule[] = DEFAULT_BUMP_RULES) {
+    return parseCommit(text, undefined, rules).bump;
+}
+
+// Parses every commit on its own; the bump is the maximum across all commits
+export function analyzeCommits(commits: CommitInput[], rules: BumpRule[] = DEFAULT_BUMP_RULES): CommitAnalysis {
+    const parsed = commits.map(c => parseCommit(c.message, c.sha, rules));
+    const bump = parsed.reduce<VersionIncrease | null>((acc, c) => maxVersionIncrease(acc, c.bump), null);
+    return { bump, commits: parsed };
+}
+
+// One line per commit that contributes to the bump, e.g. "`abc1234` feat(api): add x → minor"
+export function describeBumpCommits(commits: ParsedCommit[]) {
+    return commits
+        .filter(c => c.bump)
+        .map(c => `${c.sha ? `\`${c.sha.slice(0, 7)}\` ` : ""}${c.header} → ${c.bump}`);
 }
 
 export function nextTag(major: number, minor: number, patch: number, versionToIncrease: string) {
@@ -55,183 +182,1408 @@ export function nextTag(major: number, minor: number, patch: number, versionToIn
     return [major, minor, patch + 1];
 }
 
-export function formatTagToString(major: number, minor: number, patch: number, vPrefix: boolean) {
-    return `${vPrefix ? "v" : ""}${major}.${minor}.${patch}`;
+export function formatTagToString(major: number, minor: number, patch: number, vPrefix: boolean, prerelease: Array<string | number> = []) {
+    return `${vPrefix ? "v" : ""}${major}.${minor}.${patch}${prerelease.length ? `-${prerelease.join(".")}` : ""}`;
+}
+
+// The bump a pre-release version already contains: X.0.0 → major, X.Y.0 → minor, otherwise patch
+function pendingIncrease(version: Version): VersionIncrease {
+    if (version[1] === 0 && version[2] === 0) {
+        return "major";
+    }
+    return version[2] === 0 ? "minor" : "patch";
+}
+
+// Determines the next version, optionally on a pre-release channel (e.g. "rc").
+// A pre-release that already contains the bump only gets its counter increased (1.3.0-rc.0 → 1.3.0-rc.1),
+// without a channel it is released as is (1.3.0-rc.1 → 1.3.0).
+export function nextVersion(latest: Version, versionToIncrease: VersionIncrease, prerelease?: string): Version {
+    const [major, minor, patch, ...identifiers] = latest;
+    const isPrerelease = identifiers.length > 0;
+    const covered = isPrerelease && maxVersionIncrease(pendingIncrease(latest), versionToIncrease) === pendingIncrease(latest);
+
+    const [nextMajor, nextMinor, nextPatch] = covered ? [major, minor, patch] : nextTag(major, minor, patch, versionToIncrease);
+    if (!prerelease) {
+        return [nextMajor, nextMinor, nextPatch];
+    }
+    const counter = identifiers[1];
+    if (covered && identifiers[0] === prerelease && typeof counter === "number") {
+        return [nextMajor, nextMinor, nextPatch, prerelease, counter + 1];
+    }
+    return [nextMajor, nextMinor, nextPatch, prerelease, 0];
+}
+
+// Validates the prerelease input; empty means a stable release
+export function parsePrereleaseChannel(value: string): string | undefined {
+    const channel = (value || "").trim();
+    if (!channel) {
+        return undefined;
+    }
+    if (!/^[0-9A-Za-z-]+$/.test(channel) || /^\d+$/.test(channel)) {
+        throw new Error(`Invalid prerelease "${value}". Expected an identifier like alpha, beta or rc.`);
+    }
+    return channel;
+}
+
+// Values exposed to later workflow steps through core.setOutput
+export interface ActionOutputs {
+    new_tag: string;
+    previous_tag: string;
+    bump: VersionIncrease | "none";
+    version: string;
+    major: string;
+    minor: string;
+    patch: string;
+    tag_created: boolean;
+    release_created: boolean;
+    release_url: string;
+    is_preview: boolean;
+    packages: string;
+    changelog: string;
+    release_pr_url: string;
+}
+
+export function emptyOutputs(): ActionOutputs {
+    return {
+        new_tag: "",
+        previous_tag: "",
+        bump: "none",
+        version: "",
+        major: "",
+        minor: "",
+        patch: "",
+        tag_created: false,
+        release_created: false,
+        release_url: "",
+        is_preview: false,
+        packages: "[]",
+        changelog: "",
+        release_pr_url: "",
+    };
+}
+
+export function writeOutputs(outputs: ActionOutputs) {
+    for (const [name, value] of Object.entries(outputs)) {
+        core.setOutput(name, String(value));
+    }
+}
+
+// GitHub API helpers, also through the forge interface of src/github.ts
+export { listRepoTags, logDryRun, resolveTagCommit, upsertPrComment } from "./github.js";
+
+export interface LatestTag {
+    name: string;
+    parsed: Version;
+    found: boolean;
+}
+
+// One independently versioned unit: the whole repository or one package of a monorepo
+export interface ReleaseUnit {
+    pkg?: PackageConfig;
+    latest: LatestTag;
+    analysis: CommitAnalysis;
+    versionToIncrease: VersionIncrease;
+    bumpCommits: string[];
+    version: Version;
+    tagAsString: string;
+    changelog: string;
+    floatingTags: string[];
+}
+
+export interface PublishResult {
+    tagCreated: boolean;
+    releaseCreated: boolean;
+    releaseUrl: string;
+    // set when the tag name is taken by another commit; nothing was published
+    conflict?: string;
+}
+
+// Attempts to allocate a tag name when runs for merges landing close together race for it
+export const TAG_ATTEMPTS = 5;
+
+// Exponential backoff with jitter: about 1s, 2s, 4s, 8s
+export function tagRetryDelay(attempt: number) {
+    return 1000 * 2 ** (attempt - 2) + Math.floor(Math.random() * 500);
+}
+
+// Renders and parses the tag names of one unit
+export interface TagNaming {
+    render(version: Version): string;
+    parse(tagName: string): Version | null;
+    // floating tag of a major (or major.minor) line, null if the format has no room for it
+    floating(parts: number[]): string | null;
+    description: string;
+}
+
+// Without tag_format tags are "<package prefix>[v]<version>". A tag_format without {package} still gets the package prefix.
+export function createTagNaming(tagFormat: string | null, vPrefix: boolean, pkg?: PackageConfig, runNumber?: number): TagNaming {
+    const prefix = pkg && !tagFormat?.includes("{package}") ? pkg.tagPrefix : "";
+    if (!tagFormat) {
+        return {
+            render: ([major, minor, patch, ...identifiers]) => `${prefix}${formatTagToString(major, minor, patch, vPrefix, identifiers)}`,
+            parse: name => parseTagFromName(name, prefix),
+            floating: parts => `${prefix}${vPrefix ? "v" : ""}${parts.join(".")}`,
+            description: prefix ? ` with prefix ${prefix}` : "",
+        };
+    }
+    const values = { package: pkg?.name, runNumber };
+    return {
+        render: version => `${prefix}${renderTagFormat(tagFormat, version, values)}`,
+        parse: name => name.startsWith(prefix) ? matchTagFormat(tagFormat, name.slice(prefix.length), values) : null,
+        floating: parts => {
+            const name = renderFloatingTagFormat(tagFormat, parts, values);
+            return name === null ? null : `${prefix}${name}`;
+        },
+        description: ` matching ${prefix}${tagFormat}`,
+    };
+}
+
+// Tags of the unit, highest version first. With a maintenance range only tags within that range are considered;
+// tags that don't match the naming are ignored.
+function candidateTags(tagNames: string[], naming: TagNaming, range?: MaintenanceRange) {
+    return tagNames
+        .map(name => {
+            const p = naming.parse(name);
+            return p ? { name, parsed: p } : null;
+        })
+        .filter((x): x is { name: string; parsed: Version } => !!x && isWithinRange(x.parsed, range))
+        .sort((a, b) => compareTags(b.parsed, a.parsed));
+}
+
+// With branches, pre-release tags of other channels don't count: main starts from its highest stable tag
+// instead of releasing the beta of next. Tags that don't match the naming are left for the pick to ignore.
+export function channelTags(tagNames: string[], naming: TagNaming, prerelease?: string) {
+    return tagNames.filter(name => {
+        const version = naming.parse(name);
+        return !version || version.length === 3 || version[3] === prerelease;
+    });
+}
+
+// Whether the tag is a version of the naming below the given one; a re-run starts its changelog from such a tag
+export function isTagBelow(tagName: string, naming: TagNaming, version: Version) {
+    const parsed = naming.parse(tagName);
+    return !!parsed && compareTags(parsed, version) < 0;
+}
+
+function baselineTag(naming: TagNaming, range?: MaintenanceRange): LatestTag {
+    const baseline = latestTagOf([], naming, range);
+    core.info(`No valid tags found${naming.description}. Starting from ${formatTagToString(baseline.parsed[0], baseline.parsed[1], baseline.parsed[2], false)} baseline.`);
+    return baseline;
+}
+
+// Highest tag of the unit without logging; the baseline (0.0.0, or the start of the maintenance range) if there is none
+export function latestTagOf(tagNames: string[], naming: TagNaming, range?: MaintenanceRange): LatestTag {
+    const [highest] = candidateTags(tagNames, naming, range);
+    if (highest) {
+        return { ...highest, found: true };
+    }
+    const baseline: Version = range ? [range.major, range.minor ?? 0, 0] : [0, 0, 0];
+    return { name: naming.render(baseline), parsed: baseline, found: false };
+}
+
+// Returns the highest semver tag of the repository (0.0.0 baseline if none).
+export function pickLatestTag(tagNames: string[], naming: TagNaming, range?: MaintenanceRange): LatestTag {
+    const candidates = candidateTags(tagNames, naming, range);
+    if (candidates.length === 0) {
+        return baselineTag(naming, range);
+    }
+    core.info(`Picked ${candidates[0].name}: highest of ${candidates.length} tag(s)${naming.description} in the repository.`);
+    return { ...candidates[0], found: true };
+}
+
+// Returns the highest semver tag that is an ancestor of sha, so tags on other branches (or pushed by mistake) are skipped.
+// Walks the candidates from the highest version down with the compare API.
+export async function pickReachableTag(octokit: Octokit, owner: string, repo: string, tagNames: string[], naming: TagNaming, sha: string, range?: MaintenanceRange): Promise<LatestTag> {
+    const skipped: string[] = [];
+    for (const candidate of candidateTags(tagNames, naming, range)) {
+        const { data } = await octokit.rest.repos.compareCommitsWithBasehead({ owner, repo, basehead: `${candidate.name}...${sha}`, per_page: 1 });
+        if (data.status === "ahead" || data.status === "identical") {
+            core.info(`Picked ${candidate.name}: highest tag${naming.description} reachable from ${sha.slice(0, 7)}` +
+                (skipped.length ? `; skipped ${skipped.join(", ")}.` : "."));
+            return { ...candidate, found: true };
+        }
+        skipped.push(`${candidate.name} (${data.status}, not an ancestor)`);
+    }
+    if (skipped.length) {
+        core.info(`None of the tags${naming.description} are reachable from ${sha.slice(0, 7)}: ${skipped.join(", ")}.`);
+    }
+    return baselineTag(naming, range);
+}
+
+// Keeps the commits that touch the package. Commits whose files can't be found are kept.
+export async function filterCommitsForPackage(octokit: Octokit, owner: string, repo: string, pkg: PackageConfig, commits: CommitInput[], filesCache: Map<string, string[] | null>): Promise<CommitInput[]> {
+    const result: CommitInput[] = [];
+    for (const commit of commits) {
+        let files = commit.files ?? null;
+        if (!files && commit.sha) {
+            if (!filesCache.has(commit.sha)) {
+                try {
+                    const { data } = await octokit.rest.repos.getCommit({ owner, repo, ref: commit.sha });
+                    filesCache.set(commit.sha, (data.files || []).map(f => f.filename));
+                } catch (err: any) {
+                    if (apiErrorKind(err) !== "not_found") {
+                        throw err;
+                    }
+                    core.info(`Could not find commit ${commit.sha}; counting it for every package.`);
+                    filesCache.set(commit.sha, null);
+                }
+            }
+            files = filesCache.get(commit.sha) ?? null;
+        }
+        if (!files || packageTouched(pkg, files)) {
+            result.push(commit);
+        }
+    }
+    return result;
+}
+
+// Validates the force_bump input; empty means "analyze commits"
+export function parseForcedBump(value: string): VersionIncrease | null {
+    const bump = (value || "").trim().toLowerCase();
+    if (!bump) {
+        return null;
+    }
+    if (bump !== "major" && bump !== "minor" && bump !== "patch") {
+        throw new Error(`Invalid force_bump "${value}". Expected major, minor or patch.`);
+    }
+    return bump;
+}
+
+// Validates the release_notes input: "github" (generate_release_notes) or "changelog" (built-in notes)
+export function parseReleaseNotesMode(value: string): "github" | "changelog" {
+    const mode = (value || "").trim().toLowerCase() || "github";
+    if (mode !== "github" && mode !== "changelog") {
+        throw new Error(`Invalid release_notes "${value}". Expected github or changelog.`);
+    }
+    return mode;
+}
+
+export type FloatingTags = "none" | "major" | "minor";
+
+// Validates the update_floating_tags input; true is short for major
+export function parseFloatingTags(value: string): FloatingTags {
+    const mode = (value || "").trim().toLowerCase();
+    if (!mode || mode === "false" || mode === "none") {
+        return "none";
+    }
+    if (mode === "true" || mode === "major") {
+        return "major";
+    }
+    if (mode === "minor") {
+        return "minor";
+    }
+    throw new Error(`Invalid update_floating_tags "${value}". Expected false, major (or true) or minor.`);
+}
+
+// Floating tags (v1, and v1.4 with minor) to point at the new version. A line only moves when the new version
+// is its highest stable version, so a backported patch doesn't move v1 backwards. Pre-releases never move them.
+export function floatingTagsFor(version: Version, tagNames: string[], naming: TagNaming, mode: FloatingTags): string[] {
+    if (mode === "none" || version.length > 3) {
+        return [];
+    }
+    const stable = tagNames.map(name => naming.parse(name)).filter((v): v is Version => !!v && v.length === 3);
+    const lines = mode === "minor" ? [[version[0]], [version[0], version[1]]] : [[version[0]]];
+    return lines
+        .filter(line => stable.every(v => !line.every((n, i) => v[i] === n) || compareTags(v, version) <= 0))
+        .map(line => naming.floating(line))
+        .filter((name): name is string => !!name);
+}
+
+// Creates the floating tag or force-moves it to the sha
+export async function moveFloatingTag(octokit: Octokit, owner: string, repo: string, name: string, sha: string, dryRun = false) {
+    const ref = `tags/${name}`;
+    const exists = await octokit.rest.git.getRef({ owner, repo, ref }).then(
+        () => true,
+        (err: any) => {
+            if (apiErrorKind(err) !== "not_found") {
+                throw err;
+            }
+            return false;
+        }
+    );
+    if (dryRun) {
+        logDryRun(`${exists ? "move" : "create"} floating tag ${name} to ${sha}.`);
+        return;
+    }
+    if (exists) {
+        await octokit.rest.git.updateRef({ owner, repo, ref, sha, force: true });
+    } else {
+        await octokit.rest.git.createRef({ owner, repo, ref: `refs/${ref}`, sha });
+    }
+    core.info(`Floating tag ${name} ${exists ? "moved" : "created"} on ${sha}.`);
+}
+
+export type VersionFileUpdate = { file: VersionFile; version: string };
+type FileChange = { path: string; content: string };
+
+// Content of a file at the ref, null if it doesn't exist
+async function readRepoFile(octokit: Octokit, owner: string, repo: string, path: string, ref: string): Promise<string | null> {
+    try {
+        const { data } = await octokit.rest.repos.getContent({ owner, repo, path, ref });
+        if (Array.isArray(data) || data.type !== "file") {
+            throw new Error(`${path} is not a file.`);
+        }
+        return Buffer.from(data.content, "base64").toString("utf8");
+    } catch (err: any) {
+        if (apiErrorKind(err) !== "not_found") {
+            throw err;
+        }
+        return null;
+    }
+}
+
+// The version files with the new versions written into them (unchanged files are left out)
+async function versionFileChanges(octokit: Octokit, owner: string, repo: string, ref: string, updates: VersionFileUpdate[]): Promise<FileChange[]> {
+    const changes: FileChange[] = [];
+    for (const { file, version } of updates) {
+        const content = await readRepoFile(octokit, owner, repo, file.path, ref);
+        if (content === null) {
+            throw new Error(`Version file ${file.path} not found.`);
+        }
+        const bumped = bumpVersionFile(file, content, version);
+        if (bumped !== content) {
+            changes.push({ path: file.path, content: bumped });
+        }
+        core.info(`${file.path}: version ${version}${bumped === content ? " (already set)" : ""}.`);
+    }
+    return changes;
+}
+
+// Creates a commit with the changed files on top of the parent with the git data API (blobs, tree, commit)
+async function createFilesCommit(octokit: Octokit, owner: string, repo: string, parentSha: string, changes: FileChange[], message: string) {
+    const tree = [];
+    for (const change of changes) {
+        const { data: blob } = await octokit.rest.git.createBlob({ owner, repo, content: change.content, encoding: "utf-8" });
+        tree.push({ path: change.path, mode: "100644" as const, type: "blob" as const, sha: blob.sha });
+    }
+    const { data: parent } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: parentSha });
+    const treeSha = tree.length
+        ? (await octokit.rest.git.createTree({ owner, repo, base_tree: parent.tree.sha, tree })).data.sha
+        : parent.tree.sha;
+    const { data: commit } = await octokit.rest.git.createCommit({ owner, repo, message, tree: treeSha, parents: [parentSha] });
+    return commit.sha;
+}
+
+// Writes the new versions into the version files and commits them on top of parentSha, the head of the branch.
+// Fails when the branch moved on: the version commit would also release the changes merged since.
+// Returns the sha of the new commit, or null when nothing changed.
+export async function commitVersionFiles(octokit: Octokit, owner: string, repo: string, branch: string, parentSha: string, updates: VersionFileUpdate[], tags: string[], dryRun = false): Promise<string | null> {
+    const { data: ref } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+    // a dry run on an open PR reads the test merge commit, which is never the head
+    if (ref.object.sha !== parentSha && !dryRun) {
+        throw new Error(`${branch} moved on to ${ref.object.sha} since ${parentSha}; a version commit on top would also release the changes merged since. ` +
+            "The run of the latest merge releases them together.");
+    }
+    const changes = await versionFileChanges(octokit, owner, repo, parentSha, updates);
+    if (changes.length === 0) {
+        return null;
+    }
+
+    const message = `chore(release): ${tags.join(", ")} [skip ci]`;
+    if (dryRun) {
+        logDryRun(`commit ${changes.map(c => c.path).join(", ")} on ${branch} ("${message}") and tag that commit.`);
+        return null;
+    }
+    const sha = await createFilesCommit(octokit, owner, repo, parentSha, changes, message);
+    // no force: fails if the branch moved in the meantime
+    await octokit.rest.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha });
+    core.info(`Committed ${changes.map(c => c.path).join(", ")} to ${branch} as ${sha}.`);
+    return sha;
+}
+
+// The version commit an earlier run made on top of sha with commitVersionFiles (the tags of that merge sit on it), null if there is none.
+// It follows sha on the branch, so only the branch history since the commit date of sha is read.
+export async function findVersionCommit(octokit: Octokit, owner: string, repo: string, branch: string, sha: string): Promise<string | null> {
+    const { data: commit } = await octokit.rest.git.getCommit({ owner, repo, commit_sha: sha });
+    const history = await octokit.paginate(
+        octokit.rest.repos.listCommits,
+        { owner, repo, sha: branch, since: commit.committer?.date, per_page: 100 }
+    );
+    const found = history.find(c => c.parents?.length === 1 && c.parents[0].sha === sha && (c.commit?.message ?? "").startsWith("chore(release): "));
+    return found?.sha ?? null;
+}
+
+// Push events in release PR mode: whether the pushed commit is the merge of the release PR
+export async function isReleasePrMerge(octokit: Octokit, owner: string, repo: string, sha: string, releaseBranch: string) {
+    const { data } = await octokit.rest.repos.listPullRequestsAssociatedWithCommit({ owner, repo, commit_sha: sha });
+    return data.some(p => !!p.merged_at && p.head?.ref === releaseBranch);
+}
+
+// Release PR mode: rebuilds the release branch as one commit on top of the base branch (version files and changelog)
+// and opens or updates the "Release …" PR. Returns the PR, or null in a dry run.
+export async function upsertReleasePr(octokit: Octokit, owner: string, repo: string, baseBranch: string, releaseBranch: string, units: ReleaseUnit[], options: {
+    versionUpdates: VersionFileUpdate[];
+    changelogFile: string;
+    dryRun?: boolean;
+}): Promise<{ number: number; url: string } | null> {
+    const tags = units.map(u => u.tagAsString);
+    const changelog = units.map(u => u.changelog).join("\n");
+    const title = `Release ${tags.join(", ")}`;
+    const body = `<!-- release-tag-commit:release-pr -->\n🚀 Merging this PR creates ${tags.map(t => `\`${t}\``).join(", ")}.\n\n${changelog}`;
+
+    const { data: ref } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${baseBranch}` });
+    const headSha = ref.object.sha;
+    const changes = await versionFileChanges(octokit, owner, repo, headSha, options.versionUpdates);
+    if (options.changelogFile) {
+        const existing = await readRepoFile(octokit, owner, repo, options.changelogFile, headSha);
+        changes.push({ path: options.changelogFile, content: prependChangelog(existing ?? "", changelog) });
+    }
+    if (options.dryRun) {
+        logDryRun(`commit ${changes.map(c => c.path).join(", ") || "nothing"} on ${releaseBranch} and open or update the PR "${title}" with:\n${body}`);
+        return null;
+    }
+
+    // the release branch is rebuilt from the base branch every time, so it is force-moved
+    const sha = await createFilesCommit(octokit, owner, repo, headSha, changes, `chore(release): ${tags.join(", ")}`);
+    const branchExists = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${releaseBranch}` }).then(
+        () => true,
+        (err: any) => {
+            if (apiErrorKind(err) !== "not_found") {
+                throw err;
+            }
+            return false;
+        }
+    );
+    if (branchExists) {
+        await octokit.rest.git.updateRef({ owner, repo, ref: `heads/${releaseBranch}`, sha, force: true });
+    } else {
+        await octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${releaseBranch}`, sha });
+    }
+
+    const open = await octokit.paginate(
+        octokit.rest.pulls.list,
+        { owner, repo, state: "open", head: `${owner}:${releaseBranch}`, base: baseBranch, per_page: 100 }
+    );
+    if (open.length > 0) {
+        const { data } = await octokit.rest.pulls.update({ owner, repo, pull_number: open[0].number, title, body });
+        core.info(`Updated release PR #${data.number}: ${data.html_url}`);
+        return { number: data.number, url: data.html_url };
+    }
+    const { data } = await octokit.rest.pulls.create({ owner, repo, title, body, head: releaseBranch, base: baseBranch });
+    core.info(`Opened release PR #${data.number}: ${data.html_url}`);
+    return { number: data.number, url: data.html_url };
+}
+
+// Uploads the files (and their SHA256SUMS) to a draft release; names in uploaded are already on it
+export async function uploadReleaseAssets(octokit: Octokit, owner: string, repo: string, releaseId: number, assets: ReleaseAsset[], checksums = true, uploaded: string[] = []) {
+    for (const upload of assetUploads(assets, checksums)) {
+        if (uploaded.includes(upload.name)) {
+            core.info(`${upload.name} is already uploaded.`);
+            continue;
+        }
+        try {
+            await octokit.rest.repos.uploadReleaseAsset({
+                owner,
+                repo,
+                release_id: releaseId,
+                name: upload.name,
+                // the endpoint takes the raw bytes; octokit types the body as string
+                data: upload.data as unknown as string,
+                headers: { "content-type": upload.contentType, "content-length": upload.data.length },
+            });
+        } catch (err: any) {
+            throw new Error(`Failed to upload release asset ${upload.name}: ${err?.message ?? String(err)}. The draft release was left in place.`);
+        }
+        core.info(`Uploaded ${upload.name} (${upload.contentType}, ${upload.data.length} bytes).`);
+    }
+}
+
+// Validates the tag_scope input
+export function parseTagScope(value: string): "repository" | "ancestry" {
+    const scope = (value || "").trim().toLowerCase() || "repository";
+    if (scope !== "repository" && scope !== "ancestry") {
+        throw new Error(`Invalid tag_scope "${value}". Expected repository or ancestry.`);
+    }
+    return scope;
+}
+
+// What to do when the tag or release exists but points at another commit
+export type MismatchPolicy = "retry" | "fail" | "skip" | "move";
+
+export function parseMismatchPolicy(value: string): MismatchPolicy {
+    const policy = (value || "").trim().toLowerCase() || "retry";
+    if (policy !== "retry" && policy !== "fail" && policy !== "skip" && policy !== "move") {
+        throw new Error(`Invalid mismatch_policy "${value}". Expected retry, fail, skip or move.`);
+    }
+    return policy;
+}
+
+// Prepends the entry to the file on the branch through the contents API (creates the file if missing)
+export async function updateChangelogFile(octokit: Octokit, owner: string, repo: string, path: string, branch: string, entry: string, tags: string[], dryRun = false) {
+    let existing = "";
+    let sha: string | undefined;
+    try {
+        const { data } = await octokit.rest.repos.getContent({ owner, repo, path, ref: branch });
+        if (Array.isArray(data) || data.type !== "file") {
+            throw new Error(`${path} is not a file.`);
+        }
+        existing = Buffer.from(data.content, "base64").toString("utf8");
+        sha = data.sha;
+    } catch (err: any) {
+        if (apiErrorKind(err) !== "not_found") {
+            throw err;
+        }
+        core.info(`${path} does not exist on ${branch}; creating it.`);
+    }
+
+    const message = `chore(release): ${tags.join(", ")} [skip ci]`;
+    if (dryRun) {
+        logDryRun(`${sha ? "update" : "create"} ${path} on ${branch} ("${message}") with:\n${entry}`);
+        return;
+    }
+    await octokit.rest.repos.createOrUpdateFileContents({
+        owner,
+        repo,
+        path,
+        branch,
+        sha,
+        message,
+        content: Buffer.from(prependChangelog(existing, entry), "utf8").toString("base64"),
+    });
+    core.info(`Updated ${path} on ${branch}.`);
+}
+
+// Reads the repository config file from the branch. An explicitly configured path must exist; the default names are optional.
+export async function loadRepoConfig(octokit: Octokit, owner: string, repo: string, branch: string, path = ""): Promise<RepoConfig> {
+    for (const candidate of path ? [path] : CONFIG_FILES) {
+        let content: string;
+        try {
+            const { data } = await octokit.rest.repos.getContent({ owner, repo, path: candidate, ref: branch || undefined });
+            if (Array.isArray(data) || data.type !== "file") {
+                throw new Error(`${candidate} is not a file.`);
+            }
+            content = Buffer.from(data.content, "base64").toString("utf8");
+        } catch (err: any) {
+            if (apiErrorKind(err) !== "not_found") {
+                throw err;
+            }
+            if (path) {
+                throw new Error(`Config file ${path} not found on ${branch || "the default branch"}.`);
+            }
+            continue;
+        }
+        const config = parseRepoConfig(content, candidate);
+        core.info(`Loaded ${Object.keys(config).length} option(s) from ${candidate}.`);
+        return config;
+    }
+    return {};
+}
+
+// Publishes the lint result as check run on the PR head commit
+export async function publishSemanticCheck(octokit: Octokit, owner: string, repo: string, headSha: string, lint: LintResult, dryRun = false) {
+    const conclusion = lint.ok ? "success" : "failure";
+    if (dryRun) {
+        logDryRun(`create check run ${SEMANTIC_CHECK_NAME} (${conclusion}) on ${headSha}:\n${lint.summary}`);
+        return;
+    }
+    try {
+        await octokit.rest.checks.create({
+            owner,
+            repo,
+            name: SEMANTIC_CHECK_NAME,
+            head_sha: headSha,
+            status: "completed",
+            conclusion,
+            output: { title: lint.title, summary: lint.summary },
+        });
+        core.info(`Check ${SEMANTIC_CHECK_NAME} published: ${conclusion}.`);
+    } catch (err: any) {
+        // a missing checks permission fails the run with the permission to add
+        if (apiErrorKind(err) === "permission") {
+            throw err;
+        }
+        core.warning(`Failed to publish the ${SEMANTIC_CHECK_NAME} check: ${err?.message ?? String(err)}`);
+    }
 }
 
-export async function upsertPrComment(octokit: any, owner: string, repo: string, prNumber: number, body: string, marker = "release-tag-commit-bot") {
-    const markerStart = `<!-- ${marker}:start -->`;
-    const markerEnd = `<!-- ${marker}:end -->`;
-    const wrapped = `${markerStart}\n${body}\n${markerEnd}`;
+export type CommitSource = "commits" | "pr_title" | "pr_title_and_body" | "merge_commit";
 
-    const { data: comments } = await octokit.rest.issues.listComments({ owner, repo, issue_number: prNumber, per_page: 100 });
-    const existing = comments.find((c: any) => typeof c.body === 'string' && c.body.includes(markerStart) && c.user?.type === 'Bot');
+const commitSources: CommitSource[] = ["commits", "pr_title", "pr_title_and_body", "merge_commit"];
 
-    if (existing) {
-        await octokit.rest.issues.updateComment({ owner, repo, comment_id: existing.id, body: wrapped });
+// Validates the commit_source input
+export function parseCommitSource(value: string): CommitSource {
+    const source = ((value || "").trim().toLowerCase() || "commits") as CommitSource;
+    if (!commitSources.includes(source)) {
+        throw new Error(`Invalid commit_source "${value}". Expected ${commitSources.join(", ")}.`);
+    }
+    return source;
+}
+
+// Picks the messages that drive the bump of a PR. Without a merge commit (open PR) merge_commit uses
+// the title and body, which is what GitHub proposes as squash commit message.
+export function selectCommitSource(source: CommitSource, pr: { title?: string; body?: string | null }, prCommits: CommitInput[], mergeCommit?: CommitInput): CommitInput[] {
+    const title = pr.title || "";
+    const titleAndBody = pr.body ? `${title}\n\n${pr.body}` : title;
+    switch (source) {
+        case "pr_title":
+            return [{ sha: mergeCommit?.sha, message: title }];
+        case "pr_title_and_body":
+            return [{ sha: mergeCommit?.sha, message: titleAndBody }];
+        case "merge_commit":
+            return [mergeCommit ?? { message: titleAndBody }];
+        default:
+            return mergeCommit ? [mergeCommit, ...prCommits] : prCommits;
+    }
+}
+
+// Warning text when the PR title and the individual commits imply different bumps
+export function bumpMismatchWarning(titleBump: VersionIncrease | null, commitsBump: VersionIncrease | null, hasTitle = true) {
+    if (!hasTitle || titleBump === commitsBump) {
+        return null;
+    }
+    return `The PR title implies a **${titleBump ?? "no"}** bump, but the commits imply a **${commitsBump ?? "no"}** bump. ` +
+        "With squash merges the title becomes the commit message.";
+}
+
+// Fills {placeholders} of the comment_template and no_bump_comment_template inputs; {body} is the built-in comment
+export function renderCommentTemplate(template: string, values: Record<string, string>) {
+    if (!template) {
+        return values.body;
+    }
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => key in values ? values[key] : match).trim();
+}
+
+// Status line of the comment on an open PR
+export const PREVIEW_STATUS = "Preview only; tag will be created if this PR is merged.";
+// ... and in release PR mode, where merging only updates the release PR
+export const RELEASE_PR_PREVIEW_STATUS = "Preview only; once merged, this change joins the release PR. The version counts every change since the latest tag.";
+
+// Comment lines for one release unit (without the status line)
+export function renderUnitComment(unit: ReleaseUnit, forced: boolean, vPrefix: boolean, prerelease?: string, override?: LabelOverride | null, tagFormat?: string | null) {
+    let reason: string;
+    if (forced) {
+        reason = `- Reason: **${unit.versionToIncrease}** bump forced by the \`force_bump\` input.\n`;
+    } else if (override?.bumpLabel && unit.versionToIncrease !== unit.analysis.bump) {
+        reason = `- Reason: **${unit.versionToIncrease}** bump set by the \`${override.bumpLabel}\` label (commits: **${unit.analysis.bump ?? "none"}**).\n` +
+            unit.bumpCommits.map(l => `  - ${l}\n`).join("");
     } else {
-        await octokit.rest.issues.createComment({ owner, repo, issue_number: prNumber, body: wrapped });
+        reason = `- Reason: **${unit.versionToIncrease}** bump inferred from commit messages.\n` +
+            unit.bumpCommits.map(l => `  - ${l}\n`).join("");
+    }
+    if (override) {
+        reason += `- Label override in effect: ${override.labels.map(l => `\`${l}\``).join(", ")}\n`;
     }
+    return (unit.pkg ? `### 📦 ${unit.pkg.name}\n\n` : "") +
+        `🔖 **Next tag:** \`${unit.tagAsString}\`\n\n` +
+        reason +
+        (unit.floatingTags.length ? `- Floating tags: ${unit.floatingTags.map(t => `\`${t}\``).join(", ")}\n` : "") +
+        (tagFormat ? `- Tag format: \`${tagFormat}\`\n` : `- Prefix \`v\`: **${vPrefix ? "on" : "off"}**\n`) +
+        (prerelease ? `- Pre-release channel: **${prerelease}**\n` : "");
 }
 
 export async function run() {
+    const outputs = emptyOutputs();
     try {
-        // convert inputs
-        const vPrefix: boolean = String(core.getInput("v_prefix") || "").toLowerCase() === "true";
         const token: string = core.getInput("token");
-        const createRelease: boolean = String(core.getInput("create_release") || "").toLowerCase() === "true";
-        const markLatest: boolean = String(core.getInput("mark_release_as_latest") || "").toLowerCase() === "true";
-        const generateNotes: boolean = String(core.getInput("generate_release_notes") || "").toLowerCase() === "true";
-        const commentPr: boolean = String(core.getInput("comment_pr") || "").toLowerCase() === "true";
 
         //retrieve context data
         const { owner, repo } = github.context.repo;
-        const pr = github.context.payload.pull_request;
+        const { eventName, payload } = github.context;
+        const pr = payload.pull_request;
         const octokit = github.getOctokit(token);
+        installApiLayer(octokit);
+        const forge = createGitHubProvider(octokit, owner, repo, github.context.serverUrl);
 
-        // must be a PR context
-        if (!pr) {
-            core.setFailed("Not a PR context.");
+        // must be a PR, push or manual dispatch
+        if (!pr && eventName !== "push" && eventName !== "workflow_dispatch") {
+            core.setFailed(`Unsupported event "${eventName}". Use pull_request, push or workflow_dispatch.`);
+            return;
+        }
+        if (eventName === "push" && (payload.deleted || String(payload.ref || "").startsWith("refs/tags/"))) {
+            core.info(`Push of ${payload.ref} does not add commits to a branch. Nothing to do.`);
             return;
         }
 
-        //check if merged PR
-        const isMerged = !!pr.merged;
+        // base branch: PR base ref, pushed or dispatched branch
+        const baseBranch = pr ? String(pr.base?.ref || "") : branchFromRef(eventName === "push" ? payload.ref : github.context.ref);
 
-        // collect PR commits (works for preview + merged)
-        const allCommitsFromPr = await octokit.paginate(
-            octokit.rest.pulls.listCommits,
-            { owner, repo, pull_number: pr.number, per_page: 100 }
-        );
-        const commitMessages: string[] = allCommitsFromPr.map(c => c?.commit?.message || "");
+        // convert inputs (inputs override the config file of the base branch)
+        const config = await loadRepoConfig(octokit, owner, repo, baseBranch, core.getInput("config_file").trim());
+        const input = (name: string) => resolveInput(name, core.getInput(name), config);
+        const vPrefix: boolean = input("v_prefix").toLowerCase() === "true";
+        const tagFormat = parseTagFormat(input("tag_format"));
+        const tagScope = parseTagScope(input("tag_scope"));
+        const floatingTags = parseFloatingTags(input("update_floating_tags"));
+        const mismatchPolicy = parseMismatchPolicy(input("mismatch_policy"));
+        if (floatingTags !== "none" && tagFormat && !tagFormat.includes("{version}")) {
+            throw new Error("update_floating_tags needs a tag_format with {version}, e.g. v{version}.");
+        }
+        const createRelease: boolean = input("create_release").toLowerCase() === "true";
+        const markLatest: boolean = input("mark_release_as_latest").toLowerCase() === "true";
+        const generateNotes: boolean = input("generate_release_notes").toLowerCase() === "true";
+        const commentPr: boolean = input("comment_pr").toLowerCase() === "true";
+        const dryRun: boolean = String(core.getInput("dry_run") || "").toLowerCase() === "true";
+        const commitSource = parseCommitSource(input("commit_source"));
+        const semanticCheck: boolean = input("semantic_check").toLowerCase() === "true";
+        const requireBump: boolean = input("require_bump").toLowerCase() === "true";
+        const releaseLabels = parseReleaseLabels(input("release_labels"));
+        const labelMode = parseLabelMode(input("label_mode"));
+        const forcedBump = parseForcedBump(core.getInput("force_bump"));
+        // the prerelease input also names the channel of the prerelease label on stable branches
+        const prereleaseChannel = parsePrereleaseChannel(input("prerelease"));
+        let prerelease = prereleaseChannel;
+        const branchRules = parseBranchRules(input("branches"));
+        const bumpRules = parseBumpRules(input("bump_rules"));
+        const packages = parsePackages(input("packages"));
+        const releaseNotes = parseReleaseNotesMode(input("release_notes"));
+        const changelogTemplate: string = input("changelog_template") || DEFAULT_CHANGELOG_TEMPLATE;
+        const changelogFile: string = input("changelog_file").trim();
+        const assetPatterns = parseAssetPatterns(input("release_assets"));
+        const versionFiles = parseVersionFiles(input("version_files"));
+        const releaseChecksums: boolean = input("release_checksums").toLowerCase() === "true";
+        const releasePrMode: boolean = input("release_pr").toLowerCase() === "true";
+        const releaseBranch: string = input("release_pr_branch");
+        const commentTemplate: string = input("comment_template");
+        const noBumpCommentTemplate: string = input("no_bump_comment_template");
+        const tagType = parseTagType(input("tag_type"));
+        const tagMessageTemplate: string = input("tag_message");
+        const tagger = {
+            name: input("tagger_name") || DEFAULT_TAGGER.name,
+            email: input("tagger_email") || DEFAULT_TAGGER.email,
+            date: core.getInput("tagger_date") || undefined,
+        };
+        const tagSignature = tagType === "annotated" ? validateSignature(core.getInput("tag_signature"), tagger, {
+            tagMessage: tagMessageTemplate,
+            versionFiles: versionFiles.length > 0,
+        }) : undefined;
+        const labelOverride = pr ? resolveLabelOverride((pr.labels || []).map((l: any) => String(l?.name ?? "")), releaseLabels) : null;
 
-        // if merged, also include merge commit message in detection/logs
-        let mergeCommitSha: string | undefined = pr.merge_commit_sha as string | undefined;
-        if (isMerged) {
-            if (!mergeCommitSha) {
-                core.setFailed("PR has no merge_commit_sha. Cannot create a tag.");
+        // release PR mode: the release PR itself only releases once it is merged
+        const isReleasePr = releasePrMode && !!pr && String(pr.head?.ref || "") === releaseBranch;
+        if (isReleasePr && !pr.merged && !dryRun) {
+            core.info(`PR #${pr.number} is the release PR; the tags are created when it is merged.`);
+            return;
+        }
+
+        // resolve the release channel from the base branch (PR base ref, pushed or dispatched branch)
+        let channel: BranchChannel | null = null;
+        if (branchRules.length > 0) {
+            channel = resolveBranchChannel(branchRules, baseBranch);
+            if (!channel) {
+                core.info(`Branch ${baseBranch} does not match any entry of the branches input. Nothing to do.`);
                 return;
             }
-            try {
-                const mergeCommit = await octokit.rest.repos.getCommit({ owner, repo, ref: mergeCommitSha });
-                commitMessages.unshift(mergeCommit.data.commit.message || "");
-            } catch {
-                core.info("Could not read merge commit message; continuing.");
+            prerelease = parsePrereleaseChannel(channel.prerelease ?? "");
+            core.info(`Branch ${baseBranch} matches "${channel.pattern}": ${prerelease ? `pre-release channel ${prerelease}` : "stable"}` +
+                (channel.range ? `, maintenance range ${channel.range.major}.${channel.range.minor ?? "x"}` : "") + ".");
+        }
+        if (labelOverride) {
+            core.info(`Release labels on the PR: ${labelOverride.labels.join(", ")} (label_mode: ${labelMode}).`);
+            // the prerelease label turns a stable release into a pre-release of the configured channel (rc without one)
+            if (labelOverride.prerelease && !prerelease) {
+                prerelease = prereleaseChannel ?? "rc";
+            }
+        }
+
+        // all tags of the repo (latest tag per unit is also the start of the compare range for push/dispatch)
+        const tags = await forge.listTags();
+        let tagNames = tags.map(t => t.name);
+
+        // collect commits and the sha the tag will point to (null commits: compare range from the latest tag of each unit)
+        let isMerged: boolean;
+        let targetSha: string | undefined;
+        let commits: CommitInput[] | null;
+        let mismatchWarning: string | null = null;
+        if (pr) {
+            //check if merged PR (a dry run follows the merged path for open PRs too)
+            isMerged = !!pr.merged || dryRun;
+
+            // collect PR commits (works for preview + merged)
+            const prCommits = await forge.listChangeCommits(pr.number);
+
+            // if merged, also include merge commit message in detection/logs
+            let mergeCommit: CommitInput | undefined;
+            targetSha = (pr.merge_commit_sha ?? (dryRun ? pr.head?.sha : undefined)) as string | undefined;
+            if (isMerged) {
+                if (!targetSha) {
+                    core.setFailed("PR has no merge_commit_sha. Cannot create a tag.");
+                    return;
+                }
+                mergeCommit = await forge.getCommit(targetSha) ?? undefined;
+                if (!mergeCommit) {
+                    core.info(`Merge commit ${targetSha} not found; continuing without its message.`);
+                }
+            }
+            commits = selectCommitSource(commitSource, pr, prCommits, mergeCommit);
+            if (commitSource !== "commits") {
+                core.info(`Using ${commitSource} as commit source.`);
+            }
+
+            // squash merges use the title; warn when it tells a different story than the commits
+            mismatchWarning = bumpMismatchWarning(
+                pr.title ? detectVersionIncrease(pr.title, bumpRules) : null,
+                analyzeCommits(prCommits, bumpRules).bump,
+                !!pr.title
+            );
+            if (mismatchWarning) {
+                core.warning(mismatchWarning);
+            }
+
+            // lint status for open PRs
+            if (semanticCheck && !pr.merged) {
+                const lint = lintPullRequest(
+                    pr.title ? parseCommit(pr.title, undefined, bumpRules) : null,
+                    prCommits.map(c => parseCommit(c.message, c.sha, bumpRules)),
+                    {
+                        requireBump,
+                        bump: forcedBump ?? applyLabelOverride(analyzeCommits(commits, bumpRules).bump, labelOverride, labelMode),
+                        keywords: describeBumpKeywords(bumpRules),
+                    }
+                );
+                await publishSemanticCheck(octokit, owner, repo, String(pr.head?.sha || ""), lint, dryRun);
+            }
+        } else {
+            // push and workflow_dispatch always act on a commit that is already on the branch
+            isMerged = true;
+            targetSha = (eventName === "push" && payload.after) || github.context.sha;
+            if (!targetSha) {
+                core.setFailed(`No commit sha in the ${eventName} event. Cannot create a tag.`);
+                return;
+            }
+            const pushedCommits: any[] = eventName === "push" && Array.isArray(payload.commits) ? payload.commits : [];
+            if (forcedBump) {
+                commits = [];
+            } else if (pushedCommits.length > 0) {
+                commits = pushedCommits.map(c => ({
+                    sha: c?.id,
+                    message: c?.message || "",
+                    files: [...(c?.added || []), ...(c?.modified || []), ...(c?.removed || [])],
+                }));
+            } else {
+                commits = null;
+            }
+        }
+        outputs.is_preview = pr ? !pr.merged : false;
+
+        // release PR mode: a merge proposes (or, for the release PR, releases) everything since the latest tag,
+        // and an open PR previews the release PR it joins
+        const accumulated = releasePrMode && isMerged;
+        const joinsReleasePr = releasePrMode && !isMerged;
+        let releaseMerge = isReleasePr;
+        if (accumulated) {
+            if (!pr && eventName === "push") {
+                releaseMerge = await isReleasePrMerge(octokit, owner, repo, targetSha!, releaseBranch);
+            }
+            commits = forcedBump ? [] : null;
+            core.info(releaseMerge
+                ? "Release PR merged; releasing every change since the latest tag."
+                : `Release PR mode: collecting every change since the latest tag for the release PR on ${releaseBranch}.`);
+        }
+        if (dryRun) {
+            core.info("Dry run: running the merged flow without creating tags, releases, comments or commits.");
+        }
+
+        // the repository is one unit, in monorepo mode every package touched by the change is one
+        let targets: Array<PackageConfig | undefined> = [undefined];
+        if (packages.length > 0) {
+            let changedFiles: string[] | null = null;
+            if (pr && !releasePrMode) {
+                changedFiles = await forge.listChangeFiles(pr.number);
+            } else if (commits && commits.length > 0 && commits.every(c => c.files)) {
+                changedFiles = commits.flatMap(c => c.files!);
+            }
+            targets = changedFiles ? packages.filter(p => packageTouched(p, changedFiles!)) : packages;
+            core.info(`Packages touched: ${targets.map(p => p!.name).join(", ") || "none"}.`);
+        }
+
+        // with tag_scope ancestry only tags reachable from the PR base commit (or the pushed/dispatched commit) count
+        const ancestrySha = String(pr ? pr.base?.sha || baseBranch : targetSha);
+
+        // determine version increase per unit (every commit on its own, highest bump wins)
+        // determine next tag and format from the latest tag of the unit
+        // a re-run passes the version of the tag already on the commit
+        const allocateTag = (unit: Pick<ReleaseUnit, "pkg" | "latest" | "analysis" | "versionToIncrease" | "bumpCommits">, naming: TagNaming, existing?: Version): ReleaseUnit => {
+            const { latest } = unit;
+            const version = existing ?? nextVersion(latest.parsed, unit.versionToIncrease, prerelease);
+            const tagAsString = naming.render(version);
+            core.info(`Latest tag: ${latest.name}, Next tag: ${tagAsString}`);
+            const changelog = renderChangelog(unit.analysis.commits, {
+                owner,
+                repo,
+                tag: tagAsString,
+                previousTag: latest.found ? latest.name : undefined,
+                // accumulated changes link their own PRs through the "(#12)" of the subject
+                prNumber: releasePrMode ? undefined : pr?.number,
+                serverUrl: github.context.serverUrl,
+            }, changelogTemplate);
+            const unitFloatingTags = floatingTagsFor(version, tagNames, naming, floatingTags);
+            if (floatingTags !== "none") {
+                core.info(unitFloatingTags.length
+                    ? `Floating tags to move to ${tagAsString}: ${unitFloatingTags.join(", ")}.`
+                    : `Not moving floating tags: ${tagAsString} is a pre-release or not the highest version of its line.`);
+            }
+            return { ...unit, version, tagAsString, changelog, floatingTags: unitFloatingTags };
+        };
+
+        const units: ReleaseUnit[] = [];
+        const filesCache = new Map<string, string[] | null>();
+        // re-run: a tag already on the commit, or on the version commit an earlier run made on top of it, is verified
+        // instead of allocating the next version, whether or not later merges have been tagged since
+        const versionCommit = isMerged && versionFiles.length > 0 && !releaseMerge
+            ? await findVersionCommit(octokit, owner, repo, baseBranch, targetSha!)
+            : null;
+        const tagsOn = (sha: string | null) => isMerged && sha ? tags.filter(t => t.sha === sha).map(t => t.name) : [];
+        // version commit an earlier run of this merge made and tagged
+        let rerunVersionCommit: string | null = null;
+        for (const pkg of targets) {
+            const naming = createTagNaming(tagFormat, vPrefix, pkg, github.context.runNumber);
+            const own = (names: string[]) => channel ? channelTags(names, naming, prerelease) : names;
+            const pickLatest = async (names: string[]) => tagScope === "ancestry"
+                ? await pickReachableTag(octokit, owner, repo, own(names), naming, ancestrySha, channel?.range)
+                : pickLatestTag(own(names), naming, channel?.range);
+            const onTarget = latestTagOf(own(tagsOn(targetSha!)), naming, channel?.range);
+            const onVersionCommit = latestTagOf(own(tagsOn(versionCommit)), naming, channel?.range);
+            const rerunTag = onTarget.found ? onTarget : onVersionCommit.found ? onVersionCommit : null;
+            let latest: LatestTag;
+            if (rerunTag) {
+                if (rerunTag === onVersionCommit) {
+                    rerunVersionCommit = versionCommit;
+                }
+                core.info(`Tag ${rerunTag.name} already points at ${rerunTag === onTarget ? targetSha : `${versionCommit}, the version commit of ${targetSha}`}; ` +
+                    "re-run, verifying it instead of allocating the next version.");
+                // the changelog starts from the version before it
+                latest = await pickLatest(tagNames.filter(name => isTagBelow(name, naming, rerunTag.parsed)));
+            } else {
+                latest = await pickLatest(tagNames);
+            }
+            let unitCommits = commits ?? await forge.listCommits(latest.found ? latest.name : null, targetSha!);
+            if (joinsReleasePr) {
+                // the changes merged since the latest tag already wait in the release PR
+                unitCommits = [...await forge.listCommits(latest.found ? latest.name : null, baseBranch), ...unitCommits];
+            }
+            if (pkg && !forcedBump) {
+                unitCommits = await filterCommitsForPackage(octokit, owner, repo, pkg, unitCommits, filesCache);
+            }
+            const analysis = analyzeCommits(unitCommits, bumpRules);
+            const versionToIncrease = forcedBump ?? applyLabelOverride(analysis.bump, labelOverride, labelMode);
+            if (!versionToIncrease) {
+                if (pkg) {
+                    core.info(`No matching keywords found for version update of ${pkg.name}.`);
+                }
+                continue;
+            }
+            const rangeError = channel ? checkIncreaseInRange(versionToIncrease, channel) : null;
+            if (rangeError) {
+                core.setFailed(pkg ? `${pkg.name}: ${rangeError}` : rangeError);
+                return;
+            }
+            const bumpCommits = forcedBump ? [] : describeBumpCommits(analysis.commits);
+            const label = pkg ? ` for ${pkg.name}` : "";
+            if (forcedBump) {
+                core.info(`Using forced ${forcedBump} bump from the force_bump input${label}.`);
+            } else {
+                core.info(`Commits causing a ${versionToIncrease} bump${label}:\n${bumpCommits.map(l => `- ${l}`).join("\n")}`);
             }
+
+            units.push(allocateTag({ pkg, latest, analysis, versionToIncrease, bumpCommits }, naming, rerunTag?.parsed));
         }
 
-        // determine version increase (from all commit messages)
-        let versionToIncrease = detectVersionIncrease(commitMessages.join(","));
-        if (!versionToIncrease) {
+        if (units.length === 0) {
             core.info("No matching keywords found for version update. Version update skipped");
-            if (commentPr) {
-                const body = `📝 No bump detected.\n\n- I looked for \`feat\`, \`fix\`, or \`BREAKING CHANGE\` in the PR commits.\n- No new tag will be created on merge.`;
-                await upsertPrComment(octokit, owner, repo, pr.number, body);
+            if (commentPr && pr) {
+                const body = (labelOverride?.skip
+                    ? `📝 No bump: the \`${releaseLabels.skip}\` label is set.\n\n- Label override in effect: ${labelOverride.labels.map(l => `\`${l}\``).join(", ")}\n- No new tag will be created on merge.`
+                    : `📝 No bump detected.\n\n- I looked for ${describeBumpKeywords(bumpRules)} in the PR commits.\n- No new tag will be created on merge.`) +
+                    (mismatchWarning ? `\n\n⚠️ ${mismatchWarning}` : "");
+                await forge.upsertComment(pr.number, renderCommentTemplate(noBumpCommentTemplate, {
+                    body,
+                    keywords: describeBumpKeywords(bumpRules),
+                }), { dryRun });
             }
             return;
         }
 
-        // latest tag → next tag
-        const allTags = await octokit.paginate(
-            octokit.rest.repos.listTags,
-            { owner, repo, per_page: 100 }
-        );
-        const parsed = allTags
-            .map(t => {
-                const p = parseTagFromName(t?.name);
-                return p ? { name: t.name, parsed: p as [number, number, number] } : null;
-            })
-            .filter((x): x is { name: string; parsed: [number, number, number] } => !!x);
-
-        // determine latest tag
-        let latestName: string;
-        let latestParsed: number[];
-        if (parsed.length === 0) {
-            latestParsed = [0, 0, 0];
-            latestName = formatTagToString(0, 0, 0, vPrefix);
-            core.info("No valid tags found. Starting from 0.0.0 baseline.");
-        } else {
-            parsed.sort((a, b) => compareTags(b.parsed, a.parsed));
-            latestName = parsed[0].name;
-            latestParsed = parsed[0].parsed;
-        }
+        setUnitOutputs(outputs, units, packages.length > 0);
+
+        // every version file gets the version of the package containing it (or of the only unit)
+        const versionUpdates: VersionFileUpdate[] = versionFiles.flatMap(file => {
+            const unit = units.find(u => !u.pkg || packageContainsFile(u.pkg, file.path));
+            if (!unit) {
+                core.info(`${file.path} belongs to no released package; leaving it unchanged.`);
+                return [];
+            }
+            return [{ file, version: formatTagToString(unit.version[0], unit.version[1], unit.version[2], false, unit.version.slice(3)) }];
+        });
 
-        // determine next tag and format
-        const [major, minor, patch] = latestParsed;
-        const newTag = nextTag(major, minor, patch, versionToIncrease);
-        const tagAsString = formatTagToString(newTag[0], newTag[1], newTag[2], vPrefix);
-        core.info(`Latest tag: ${latestName}, Next tag: ${tagAsString}`);
+        // release PR mode: merges update the release PR instead of tagging
+        if (accumulated && !releaseMerge) {
+            const releasePr = await upsertReleasePr(octokit, owner, repo, baseBranch, releaseBranch, units, { versionUpdates, changelogFile, dryRun });
+            outputs.release_pr_url = releasePr?.url ?? "";
+            if (commentPr && pr) {
+                const body = `📦 Merged. This change is part of ${releasePr ? `release PR #${releasePr.number}` : "the release PR"} for ${units.map(u => `\`${u.tagAsString}\``).join(", ")}.`;
+                await forge.upsertComment(pr.number, body, { dryRun });
+            }
+            return;
+        }
 
         // comment (preview or confirmation)
-        if (commentPr) {
-            const body = `🔖 **Next tag:** \`${tagAsString}\`\n\n` +
-                `- Reason: **${versionToIncrease}** bump inferred from commit messages.\n` +
-                `- Prefix \`v\`: **${vPrefix ? "on" : "off"}**\n` +
-                (isMerged
-                    ? `- Status: PR is merged; tag will be created (or already created) on the merge commit.`
-                    : `- Status: Preview only; tag will be created if this PR is merged.`);
-            await upsertPrComment(octokit, owner, repo, pr.number, body);
+        if (commentPr && pr) {
+            const status = dryRun
+                ? "Dry run; nothing is written."
+                : isMerged
+                    ? "PR is merged; tag will be created (or already created) on the merge commit."
+                    : joinsReleasePr ? RELEASE_PR_PREVIEW_STATUS : PREVIEW_STATUS;
+            const body = units.map(u => renderUnitComment(u, !!forcedBump, vPrefix, prerelease, labelOverride, tagFormat)).join("\n") +
+                `- Status: ${status}` +
+                (mismatchWarning ? `\n\n⚠️ ${mismatchWarning}` : "");
+            await forge.upsertComment(pr.number, renderCommentTemplate(commentTemplate, {
+                body,
+                tags: units.map(u => u.tagAsString).join(", "),
+                bump: outputs.bump,
+                status,
+                warning: mismatchWarning ?? "",
+            }), { dryRun });
         }
 
         // exits here if it's a preview (PR not merged)
         if (!isMerged) {
             core.info("Preview only; not creating tags or releases.");
+            outputs.packages = JSON.stringify(units.map(u => packageOutputs(u, null)).filter(Boolean));
             return;
         }
 
-        // check if tag already exists. (fail safe)
-        let tagExists = false;
-        try {
-            await octokit.rest.git.getRef({ owner, repo, ref: `tags/${tagAsString}` });
-            tagExists = true;
-            core.info(`Tag ${tagAsString} already exists. Nothing to do.`);
-        } catch {
-            core.info(`Tag ${tagAsString} does not exist; can continue processing.`);
-        }
-        
-        if (!tagExists) {
-            await octokit.rest.git.createRef({
-                owner,
-                repo,
-                ref: `refs/tags/${tagAsString}`,
-                sha: mergeCommitSha!,
-            });
-            core.info(`New tag created ${tagAsString}`);
+        // write the versions into the version files; the tags go on that commit instead of the merge commit.
+        // A merged release PR already carried them.
+        let versionCommitted = releaseMerge && versionUpdates.length > 0;
+        if (rerunVersionCommit) {
+            core.info(`The versions were committed by an earlier run; verifying the tags on ${rerunVersionCommit}.`);
+            targetSha = rerunVersionCommit;
+            versionCommitted = true;
+        } else if (versionUpdates.length && !releaseMerge) {
+            const commitSha = await commitVersionFiles(octokit, owner, repo, baseBranch, targetSha!, versionUpdates, units.map(u => u.tagAsString), dryRun);
+            if (commitSha) {
+                if (commitSha !== targetSha) {
+                    core.info(`Tagging the version commit ${commitSha} instead of ${targetSha}.`);
+                }
+                targetSha = commitSha;
+                versionCommitted = true;
+            }
         }
 
-        // create release if requested also checks if it doesn't exist yet fail safe
-        if (createRelease) {
-            try {
-                const existing = await octokit.rest.repos.getReleaseByTag({ owner, repo, tag: tagAsString }).then(
-                    r => r.data,
-                    () => null
-                );
-                if (existing) {
-                    core.info(`Release for tag ${tagAsString} already exists: ${existing.html_url}`);
-                } else {
-                    const release = await octokit.rest.repos.createRelease({
-                        owner,
-                        repo,
-                        tag_name: tagAsString,
-                        target_commitish: mergeCommitSha!,
-                        name: tagAsString,
-                        generate_release_notes: generateNotes,
-                        draft: false,
-                        prerelease: false,
-                        make_latest: markLatest ? "true" : "false",
-                    });
-                    core.info(`Release created: ${release.data.html_url}`);
+        // resolve the assets before anything is published, so a missing file doesn't leave a half release
+        let assets: ReleaseAsset[] = [];
+        if (assetPatterns.length && !createRelease) {
+            core.warning("release_assets is ignored because create_release is not enabled.");
+        } else if (assetPatterns.length) {
+            assets = findReleaseAssets(assetPatterns, process.env.GITHUB_WORKSPACE || process.cwd());
+            core.info(`Release assets:\n${assets.map(a => `- ${a.name} (${a.contentType}, sha256 ${a.sha256})`).join("\n")}`);
+        }
+
+        const publish = (unit: ReleaseUnit) => publishUnit(octokit, owner, repo, forge, unit, targetSha!, {
+            createRelease,
+            generateNotes,
+            prerelease: !!prerelease,
+            makeLatest: markLatest && !prerelease && !channel?.range,
+            dryRun,
+            mismatchPolicy,
+            assets,
+            checksums: releaseChecksums,
+            releaseBody: releaseNotes === "changelog" ? unit.changelog : undefined,
+            annotatedTag: tagType === "annotated" ? {
+                message: renderTagMessage(tagMessageTemplate, {
+                    tag: unit.tagAsString,
+                    version: formatTagToString(unit.version[0], unit.version[1], unit.version[2], false, unit.version.slice(3)),
+                    changelog: unit.changelog,
+                    prTitle: pr?.title,
+                }),
+                tagger,
+                signature: tagSignature,
+            } : undefined,
+        });
+
+        const results: PackageOutputs[] = [];
+        for (let i = 0; i < units.length; i++) {
+            let result = await publish(units[i]);
+            // another run took the tag name: re-read the tags and allocate the next free version
+            for (let attempt = 2; result.conflict && attempt <= TAG_ATTEMPTS; attempt++) {
+                if (versionCommitted) {
+                    throw new Error(`${result.conflict} The version commit ${targetSha} already carries ${units[i].tagAsString}; re-run the workflow to release it under a new version.`);
                 }
+                const delay = tagRetryDelay(attempt);
+                core.warning(`${result.conflict} Re-reading the tags and retrying in ${delay} ms (attempt ${attempt} of ${TAG_ATTEMPTS}).`);
+                await sleep(delay);
+                const readBefore = new Set(tagNames);
+                tagNames = (await forge.listTags()).map(t => t.name);
+                // only the taken tag and the tags created since the last read move the unit on; a higher tag the first pick
+                // left out (another branch with tag_scope ancestry, another channel) still doesn't count
+                const naming = createTagNaming(tagFormat, vPrefix, units[i].pkg, github.context.runNumber);
+                const created = [units[i].tagAsString, ...tagNames.filter(name => !readBefore.has(name))];
+                const latest = latestTagOf(channel ? channelTags(created, naming, prerelease) : created, naming, channel?.range);
+                core.info(`Picked ${latest.name}: highest of the taken tag and the tags created since the last read.`);
+                units[i] = allocateTag({ ...units[i], latest }, naming);
+                result = await publish(units[i]);
+            }
+            if (result.conflict) {
+                throw new Error(`${result.conflict} Giving up after ${TAG_ATTEMPTS} attempts.`);
+            }
+            const unit = units[i];
+            outputs.tag_created = outputs.tag_created || result.tagCreated;
+            outputs.release_created = outputs.release_created || result.releaseCreated;
+            if (packages.length === 0) {
+                outputs.release_url = result.releaseUrl;
+            }
+            const pkgOutputs = packageOutputs(unit, result);
+            if (pkgOutputs) {
+                results.push(pkgOutputs);
+            }
+        }
+        outputs.packages = JSON.stringify(results);
+        setUnitOutputs(outputs, units, packages.length > 0);
+
+        // prepend the release notes to the changelog file of the base branch, once: the run that created the tags writes them
+        if (changelogFile && !releaseMerge && !outputs.tag_created && !dryRun) {
+            core.info(`No tag was created by this run; leaving ${changelogFile} unchanged.`);
+        } else if (changelogFile && !releaseMerge) {
+            try {
+                await updateChangelogFile(octokit, owner, repo, changelogFile, baseBranch, outputs.changelog, units.map(u => u.tagAsString), dryRun);
             } catch (err: any) {
-                core.warning(`Failed to create release for ${tagAsString}: ${err?.message ?? String(err)}`);
+                if (apiErrorKind(err) === "permission") {
+                    throw err;
+                }
+                core.warning(`Failed to update ${changelogFile}: ${err?.message ?? String(err)}`);
             }
         }
     } catch (error: any) {
         core.setFailed(error?.message ?? String(error));
+    } finally {
+        writeOutputs(outputs);
     }
 }
 
-// only run if not in test environment for testing
-if (process.env.NODE_ENV !== "test" && !process.env.VITEST) {
-    void run();
-}
\ No newline at end of file
+// Outputs describing the computed tags; the single tag outputs are only set without packages
+function setUnitOutputs(outputs: ActionOutputs, units: ReleaseUnit[], monorepo: boolean) {
+    outputs.changelog = units.map(u => u.changelog).join("\n");
+    outputs.bump = units.reduce<VersionIncrease | null>((acc, u) => maxVersionIncrease(acc, u.versionToIncrease), null)!;
+    if (!monorepo) {
+        const [unit] = units;
+        const [major, minor, patch, ...identifiers] = unit.version;
+        outputs.new_tag = unit.tagAsString;
+        outputs.previous_tag = unit.latest.found ? unit.latest.name : "";
+        outputs.version = formatTagToString(major, minor, patch, false, identifiers);
+        [outputs.major, outputs.minor, outputs.patch] = [major, minor, patch].map(String);
+    }
+}
+
+// Per package entry of the packages output
+export interface PackageOutputs {
+    name: string;
+    new_tag: string;
+    previous_tag: string;
+    bump: VersionIncrease;
+    version: string;
+    tag_created: boolean;
+    release_created: boolean;
+    release_url: string;
+}
+
+function packageOutputs(unit: ReleaseUnit, result: PublishResult | null): PackageOutputs | null {
+    if (!unit.pkg) {
+        return null;
+    }
+    const [major, minor, patch, ...identifiers] = unit.version;
+    return {
+        name: unit.pkg.name,
+        new_tag: unit.tagAsString,
+        previous_tag: unit.latest.found ? unit.latest.name : "",
+        bump: unit.versionToIncrease,
+        version: formatTagToString(major, minor, patch, false, identifiers),
+        tag_created: result?.tagCreated ?? false,
+        release_created: result?.releaseCreated ?? false,
+        release_url: result?.releaseUrl ?? "",
+    };
+}
+
+// Creates the tag (and release) of one unit unless they already exist
+export async function publishUnit(octokit: Octokit, owner: string, repo: string, forge: GitHubProvider, unit: ReleaseUnit, targetSha: string, options: {
+    createRelease: boolean;
+    generateNotes: boolean;
+    prerelease: boolean;
+    makeLatest: boolean;
+    dryRun?: boolean;
+    mismatchPolicy?: MismatchPolicy;
+    releaseBody?: string;
+    annotatedTag?: AnnotatedTagOptions;
+    assets?: ReleaseAsset[];
+    checksums?: boolean;
+}): Promise<PublishResult> {
+    const { tagAsString } = unit;
+    const policy = options.mismatchPolicy ?? "retry";
+    const result: PublishResult = { tagCreated: false, releaseCreated: false, releaseUrl: "" };
+
+    // annotated tags point the ref at a tag object instead of the commit
+    const tagRefSha = async () => {
+        if (!options.annotatedTag) {
+            return targetSha;
+        }
+        const { data: tagObject } = await octokit.rest.git.createTag({
+            owner,
+            repo,
+            tag: tagAsString,
+            message: signedTagMessage(options.annotatedTag),
+            object: targetSha,
+            type: "commit",
+            tagger: options.annotatedTag.tagger,
+        });
+        core.info(`Annotated tag object ${tagObject.sha} created for ${tagAsString}${options.annotatedTag.signature ? " (signed)" : ""}.`);
+        return tagObject.sha;
+    };
+
+    // the policy decides about a tag on another commit: a result to stop with, or null to move the tag here
+    const onMismatch = (mismatch: string): PublishResult | null => {
+        switch (policy) {
+            case "retry":
+                return { ...result, conflict: mismatch };
+            case "skip":
+                core.warning(`${mismatch} Leaving the tag and its release as they are (mismatch_policy: skip).`);
+                return result;
+            case "fail":
+                throw new Error(`${mismatch} Set mismatch_policy to move to re-point it, or to skip to leave it.`);
+            case "move":
+                return null;
+        }
+    };
+    const moveTag = async (from: string | null) => {
+        await octokit.rest.git.updateRef({ owner, repo, ref: `tags/${tagAsString}`, sha: await tagRefSha(), force: true });
+        result.tagCreated = true;
+        core.info(`Tag ${tagAsString} moved from ${from ?? "another commit"} to ${targetSha}.`);
+    };
+
+    // check if tag already exists. (fail safe) Only a tag on this commit counts as done.
+    const existingSha = await forge.getTagRef(tagAsString);
+    const tagExists = existingSha !== null;
+    const tagReady = existingSha === targetSha;
+    if (tagExists && !tagReady) {
+        const stop = onMismatch(`Tag ${tagAsString} already points at ${existingSha}, not ${targetSha}.`);
+        if (stop) {
+            return stop;
+        }
+    } else {
+        core.info(tagReady
+            ? `Tag ${tagAsString} already exists on ${targetSha}. Nothing to do.`
+            : `Tag ${tagAsString} does not exist; can continue processing.`);
+    }
+
+    if (!tagReady && options.dryRun) {
+        logDryRun(`${tagExists ? "move" : "create"} ${options.annotatedTag ? "annotated" : "lightweight"} tag ${tagAsString} ${tagExists ? "to" : "on"} ${targetSha}` +
+            (options.annotatedTag ? ` with message:\n${options.annotatedTag.message}` : "."));
+    } else if (tagExists && !tagReady) {
+        await moveTag(existingSha);
+    } else if (!tagExists) {
+        try {
+            await forge.createTagRef(tagAsString, await tagRefSha());
+            result.tagCreated = true;
+            core.info(`New tag created ${tagAsString}`);
+        } catch (err: any) {
+            // 422: another run created the tag since the check above
+            if (apiErrorKind(err) !== "validation") {
+                throw err;
+            }
+            const sha = await forge.getTagRef(tagAsString);
+            if (sha === targetSha) {
+                core.info(`Tag ${tagAsString} was created on ${targetSha} by another run.`);
+            } else {
+                const stop = onMismatch(`Tag ${tagAsString} was created on ${sha ?? "another commit"} by another run.`);
+                if (stop) {
+                    return stop;
+                }
+                await moveTag(sha);
+            }
+        }
+    }
+
+    // floating tags follow the release commit, only once the tag itself is in place
+    if (!tagReady) {
+        for (const name of unit.floatingTags) {
+            await moveFloatingTag(octokit, owner, repo, name, targetSha, options.dryRun);
+        }
+    }
+
+    // create release if requested also checks if it doesn't exist yet fail safe
+    // with assets the release stays a draft until every upload succeeded
+    const assets = options.assets ?? [];
+    let draft: { id: number; url: string } | null = null;
+    // assets a resumed draft already has
+    let uploaded: string[] = [];
+    const existing = options.createRelease ? await forge.getRelease(tagAsString) : null;
+    if (existing?.draft) {
+        // an earlier run failed uploading: finish the uploads and publish the draft
+        core.info(`Draft release for tag ${tagAsString} already exists: ${existing.url}; resuming it.`);
+        result.releaseUrl = existing.url;
+        if (options.dryRun) {
+            logDryRun(`upload the missing assets to the draft release ${tagAsString} and publish it.`);
+        } else {
+            draft = existing;
+            uploaded = existing.assets.filter(a => a.state === "uploaded").map(a => a.name);
+            // an interrupted upload leaves an asset that blocks its name
+            for (const asset of existing.assets.filter(a => a.state !== "uploaded")) {
+                await octokit.rest.repos.deleteReleaseAsset({ owner, repo, asset_id: asset.id });
+            }
+        }
+    } else if (existing) {
+        result.releaseUrl = existing.url;
+        core.info(`Release for tag ${tagAsString} already exists: ${existing.url}`);
+        // target_commitish may also name a branch; only a commit SHA can be compared
+        const target = existing.target;
+        if (/^[0-9a-f]{40}$/i.test(target) && target !== targetSha) {
+            const mismatch = `Release ${tagAsString} targets ${target}, not ${targetSha}.`;
+            if (policy === "move" && options.dryRun) {
+                logDryRun(`update the target of release ${tagAsString} to ${targetSha}.`);
+            } else if (policy === "move") {
+                await octokit.rest.repos.updateRelease({ owner, repo, release_id: existing.id, target_commitish: targetSha });
+                core.info(`${mismatch} Updated it to ${targetSha}.`);
+            } else if (policy === "skip") {
+                core.warning(`${mismatch} Leaving it as it is (mismatch_policy: skip).`);
+            } else {
+                throw new Error(`${mismatch} Set mismatch_policy to move to update it, or to skip to leave it.`);
+            }
+        }
+    } else if (options.createRelease) {
+        try {
+            if (options.dryRun) {
+                logDryRun(`create ${options.prerelease ? "pre-release" : "release"} ${tagAsString} on ${targetSha} (latest: ${options.makeLatest})` +
+                    (options.releaseBody !== undefined ? ` with notes:\n${options.releaseBody}` : ` with generate_release_notes: ${options.generateNotes}.`));
+                for (const asset of assets) {
+                    logDryRun(`upload ${asset.name} (${asset.contentType}, ${asset.size} bytes, sha256 ${asset.sha256}) to ${tagAsString}.`);
+                }
+            } else {
+                const release = await forge.createRelease({
+                    tag: tagAsString,
+                    sha: targetSha,
+                    name: tagAsString,
+                    body: options.releaseBody ?? "",
+                    generateNotes: options.releaseBody === undefined && options.generateNotes,
+                    draft: assets.length > 0,
+                    prerelease: options.prerelease,
+                    makeLatest: options.makeLatest,
+                });
+                result.releaseCreated = true;
+                result.releaseUrl = release.url;
+                if (assets.length) {
+                    draft = release;
+                    core.info(`Draft release created: ${release.url}`);
+                } else {
+                    core.info(`Release created: ${release.url}`);
+                }
+            }
+        } catch (err: any) {
+            // the tag is in place; a re-run verifies it and creates the missing release
+            throw new Error(`Failed to create release for ${tagAsString}: ${err?.message ?? String(err)}`);
+        }
+    }
+
+    // a failed upload fails the run and leaves the draft for inspection
+    if (draft) {
+        await uploadReleaseAssets(octokit, owner, repo, draft.id, assets, options.checksums ?? true, uploaded);
+        const { data: published } = await octokit.rest.repos.updateRelease({
+            owner,
+            repo,
+            release_id: draft.id,
+            draft: false,
+            make_latest: options.makeLatest ? "true" : "false",
+        });
+        result.releaseCreated = true;
+        result.releaseUrl = published.html_url;
+        core.info(`Release published with ${assets.length} asset(s): ${published.html_url}`);
+    }
+    return result;
+}
@@ -0,0 +1,99 @@
+import type { VersionIncrease } from "./index.js";
+
+export type LabelAction = "major" | "minor" | "patch" | "skip" | "prerelease";
+
+export type ReleaseLabels = Record<LabelAction, string>;
+
+// How bump labels combine with the commits: replace the bump, or only lower it
+export type LabelMode = "override" | "cap";
+
+export interface LabelOverride {
+    bump?: VersionIncrease;
+    bumpLabel?: string;
+    skip: boolean;
+    prerelease: boolean;
+    labels: string[];
+}
+
+export const DEFAULT_RELEASE_LABELS: ReleaseLabels = {
+    major: "release:major",
+    minor: "release:minor",
+    patch: "release:patch",
+    skip: "release:skip",
+    prerelease: "release:prerelease",
+};
+
+const labelActions = Object.keys(DEFAULT_RELEASE_LABELS) as LabelAction[];
+
+const bumpRank: Record<VersionIncrease, number> = { patch: 1, minor: 2, major: 3 };
+
+// Parses the multi-line release_labels input ("<action>: <label name>"); missing actions keep their default label
+export function parseReleaseLabels(input: string): ReleaseLabels {
+    const labels = { ...DEFAULT_RELEASE_LABELS };
+    for (const raw of (input || "").split(/\r?\n/)) {
+        const line = raw.replace(/#.*$/, "").trim();
+        if (!line) {
+            continue;
+        }
+        const idx = line.indexOf(":");
+        const action = line.slice(0, idx).trim().toLowerCase() as LabelAction;
+        const name = line.slice(idx + 1).trim();
+        if (idx === -1 || !labelActions.includes(action) || !name) {
+            throw new Error(`Invalid release_labels entry "${line}". Expected "<${labelActions.join("|")}>: <label name>".`);
+        }
+        labels[action] = name;
+    }
+    return labels;
+}
+
+export function parseLabelMode(value: string): LabelMode {
+    const mode = (value || "").trim().toLowerCase() || "override";
+    if (mode !== "override" && mode !== "cap") {
+        throw new Error(`Invalid label_mode "${value}". Expected override or cap.`);
+    }
+    return mode;
+}
+
+// Reads the release labels of a PR; the highest bump label wins
+export function resolveLabelOverride(labelNames: string[], labels: ReleaseLabels): LabelOverride | null {
+    const names = new Set(labelNames.map(n => n.toLowerCase()));
+    const has = (action: LabelAction) => names.has(labels[action].toLowerCase());
+
+    const found: string[] = [];
+    let bump: VersionIncrease | undefined;
+    let bumpLabel: string | undefined;
+    for (const action of ["major", "minor", "patch"] as const) {
+        if (has(action)) {
+            found.push(labels[action]);
+            bump ??= action;
+            bumpLabel ??= labels[action];
+        }
+    }
+    const skip = has("skip");
+    const prerelease = has("prerelease");
+    if (skip) {
+        found.push(labels.skip);
+    }
+    if (prerelease) {
+        found.push(labels.prerelease);
+    }
+    return found.length ? { bump, bumpLabel, skip, prerelease, labels: found } : null;
+}
+
+// Applies the override to the bump from the commits. Skip always wins.
+export function applyLabelOverride(bump: VersionIncrease | null, override: LabelOverride | null, mode: LabelMode): VersionIncrease | null {
+    if (!override) {
+        return bump;
+    }
+    if (override.skip) {
+        return null;
+    }
+    if (!override.bump) {
+        return bump;
+    }
+    if (mode === "override") {
+        return override.bump;
+    }
+    // cap: the label is the highest allowed bump
+    return bump && bumpRank[bump] > bumpRank[override.bump] ? override.bump : bump;
+}
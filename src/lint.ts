@@ -0,0 +1,52 @@
+import type { ParsedCommit, VersionIncrease } from "./index.js";
+
+export const SEMANTIC_CHECK_NAME = "release-tag-commit/semantic";
+
+export interface LintIssue {
+    sha?: string;
+    header: string;
+    reason: string;
+}
+
+export interface LintResult {
+    ok: boolean;
+    title: string;
+    summary: string;
+    issues: LintIssue[];
+}
+
+// Merge commits created by git or GitHub are not expected to follow Conventional Commits
+function isMergeCommit(header: string) {
+    return /^Merge (pull request|branch|remote-tracking branch|[0-9a-f]{7,40} into) /.test(header);
+}
+
+// Checks the PR title and commits against Conventional Commits and optionally requires a releasable type
+export function lintPullRequest(title: ParsedCommit | null, commits: ParsedCommit[], options: { requireBump: boolean; bump: VersionIncrease | null; keywords: string }): LintResult {
+    const issues: LintIssue[] = [];
+    const notConventional = "does not follow `type(scope): subject`";
+
+    if (title && !title.type) {
+        issues.push({ header: title.header, reason: `PR title ${notConventional}` });
+    }
+    for (const commit of commits) {
+        if (!commit.type && !isMergeCommit(commit.header)) {
+            issues.push({ sha: commit.sha, header: commit.header, reason: `Commit ${notConventional}` });
+        }
+    }
+    if (options.requireBump && !options.bump) {
+        issues.push({ header: title?.header ?? "", reason: `No releasable change found; expected ${options.keywords}` });
+    }
+
+    const ok = issues.length === 0;
+    const summary = ok
+        ? `✅ PR title and ${commits.length} commit(s) follow Conventional Commits.` +
+            (options.bump ? `\n\n- Bump on merge: **${options.bump}**` : "\n\n- No new tag will be created on merge.")
+        : `❌ ${issues.length} problem(s) found:\n\n` +
+            issues.map(i => `- ${i.sha ? `\`${i.sha.slice(0, 7)}\` ` : ""}${i.header ? `\`${i.header}\`: ` : ""}${i.reason}`).join("\n");
+    return {
+        ok,
+        title: ok ? "Conventional Commits" : `${issues.length} problem(s) with Conventional Commits`,
+        summary,
+        issues,
+    };
+}
@@ -0,0 +1,105 @@
+// Files that get the new version written into them before tagging
+export type ManifestKind = "package.json" | "Cargo.toml" | "pyproject.toml" | "pom.xml" | "regex";
+
+export interface VersionFile {
+    path: string;
+    kind: ManifestKind;
+    // regex files: the first capture group holds the version
+    pattern?: RegExp;
+}
+
+const knownManifests: ManifestKind[] = ["package.json", "Cargo.toml", "pyproject.toml", "pom.xml"];
+
+// Parses the multi-line version_files input: "<path>" for known manifests, "<path>: <regex>" for any other file
+export function parseVersionFiles(input: string): VersionFile[] {
+    return (input || "")
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith("#"))
+        .map(line => {
+            const idx = line.indexOf(": ");
+            const path = (idx === -1 ? line : line.slice(0, idx)).trim();
+            if (idx !== -1) {
+                const source = line.slice(idx + 2).trim();
+                let pattern: RegExp;
+                try {
+                    pattern = new RegExp(source, "m");
+                } catch (err: any) {
+                    throw new Error(`Invalid version_files entry "${line}": ${err?.message ?? String(err)}`);
+                }
+                if (new RegExp(`${source}|`).exec("")!.length < 2) {
+                    throw new Error(`Invalid version_files entry "${line}": the regex needs a capture group for the version.`);
+                }
+                return { path, kind: "regex", pattern };
+            }
+            const kind = knownManifests.find(k => path === k || path.endsWith(`/${k}`));
+            if (!kind) {
+                throw new Error(`Invalid version_files entry "${line}". Expected a ${knownManifests.join(", ")} path or "<path>: <regex with a capture group>".`);
+            }
+            return { path, kind };
+        });
+}
+
+// Replaces the first capture group of the first match
+function replaceGroup(content: string, pattern: RegExp, version: string, from = 0) {
+    const m = pattern.exec(content.slice(from));
+    if (!m || m[1] === undefined) {
+        return null;
+    }
+    const start = from + m.index + m[0].indexOf(m[1]);
+    return content.slice(0, start) + version + content.slice(start + m[1].length);
+}
+
+// Version key of the first of the given TOML tables
+function bumpToml(content: string, tables: string[], version: string) {
+    for (const table of tables) {
+        const header = new RegExp(`^\\[${table.replace(/\./g, "\\.")}\\][ \\t]*$`, "m").exec(content);
+        if (!header) {
+            continue;
+        }
+        const bodyStart = header.index + header[0].length;
+        const next = /^\[/m.exec(content.slice(bodyStart));
+        const body = content.slice(bodyStart, next ? bodyStart + next.index : undefined);
+        const updated = replaceGroup(body, /^version\s*=\s*["']([^"']*)["']/m, version);
+        if (updated !== null) {
+            return content.slice(0, bodyStart) + updated + content.slice(bodyStart + body.length);
+        }
+    }
+    return null;
+}
+
+// Writes the version into the file content, keeping the formatting. Throws if the file has no version to replace.
+export function bumpVersionFile(file: VersionFile, content: string, version: string): string {
+    let updated: string | null = null;
+    switch (file.kind) {
+        case "package.json": {
+            const current = JSON.parse(content)?.version;
+            if (typeof current === "string") {
+                const escaped = current.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+                updated = replaceGroup(content, new RegExp(`"version"\\s*:\\s*"(${escaped})"`), version);
+            }
+            break;
+        }
+        case "Cargo.toml":
+            updated = bumpToml(content, ["package", "workspace.package"], version);
+            break;
+        case "pyproject.toml":
+            updated = bumpToml(content, ["project", "tool.poetry"], version);
+            break;
+        case "pom.xml": {
+            // the project version, not the one of the <parent> block
+            const parentEnd = content.indexOf("</parent>");
+            const firstVersion = content.indexOf("<version>");
+            const from = content.indexOf("<parent>") !== -1 && content.indexOf("<parent>") < firstVersion ? parentEnd : 0;
+            updated = replaceGroup(content, /<version>([^<]*)<\/version>/, version, from);
+            break;
+        }
+        case "regex":
+            updated = replaceGroup(content, file.pattern!, version);
+            break;
+    }
+    if (updated === null) {
+        throw new Error(`No version found in ${file.path}${file.kind === "regex" ? ` for ${file.pattern}` : ""}.`);
+    }
+    return updated;
+}
@@ -0,0 +1,41 @@
+import { matchGlob } from "./glob.js";
+
+// One independently versioned package of a monorepo
+export interface PackageConfig {
+    name: string;
+    path: string;
+    tagPrefix: string;
+}
+
+// Parses the multi-line packages input: "<name>: <path glob> [<tag prefix>]".
+// The tag prefix defaults to "<name>@", so tags look like api@1.2.3 (or api/v1.2.3 with prefix "api/" and v_prefix).
+export function parsePackages(input: string): PackageConfig[] {
+    const packages = (input || "")
+        .split(/\r?\n/)
+        .map(line => line.replace(/#.*$/, "").trim())
+        .filter(line => line.length > 0)
+        .map(line => {
+            const m = /^([\w.@/-]+)\s*:\s*(\S+)(?:\s+(\S+))?$/.exec(line);
+            if (!m) {
+                throw new Error(`Invalid packages entry "${line}". Expected "<name>: <path glob> [<tag prefix>]".`);
+            }
+            return { name: m[1], path: m[2], tagPrefix: m[3] ?? `${m[1]}@` };
+        });
+
+    const names = new Set<string>();
+    for (const pkg of packages) {
+        if (names.has(pkg.name)) {
+            throw new Error(`Package "${pkg.name}" is configured more than once.`);
+        }
+        names.add(pkg.name);
+    }
+    return packages;
+}
+
+export function packageContainsFile(pkg: PackageConfig, file: string) {
+    return matchGlob(pkg.path, file);
+}
+
+export function packageTouched(pkg: PackageConfig, files: string[]) {
+    return files.some(f => packageContainsFile(pkg, f));
+}
@@ -0,0 +1,65 @@
+import type { VersionIncrease } from "./index.js";
+
+// "inherit" lets a commit (e.g. revert) take the bump of the commit it references
+export type BumpLevel = VersionIncrease | "none" | "inherit";
+
+// One entry of the bump_rules input, e.g. "perf: patch" or "feat(api): major"
+export interface BumpRule {
+    type: string;
+    scope?: string;
+    bump: BumpLevel;
+}
+
+export const DEFAULT_BUMP_RULES: BumpRule[] = [
+    { type: "feat", bump: "minor" },
+    { type: "fix", bump: "patch" },
+];
+
+const bumpLevels: BumpLevel[] = ["major", "minor", "patch", "none", "inherit"];
+
+// Parses the multi-line bump_rules input. Configured rules take precedence over the defaults.
+export function parseBumpRules(input: string): BumpRule[] {
+    const configured = (input || "")
+        .split(/\r?\n/)
+        .map(line => line.replace(/#.*$/, "").trim())
+        .filter(line => line.length > 0)
+        .map(line => {
+            const m = /^([a-z][\w-]*)(?:\(([^)]+)\))?\s*:\s*(\w+)$/i.exec(line);
+            const bump = m ? m[3].toLowerCase() as BumpLevel : undefined;
+            if (!m || !bump || !bumpLevels.includes(bump)) {
+                throw new Error(`Invalid bump_rules entry "${line}". Expected "<type>[(<scope>)]: <major|minor|patch|none|inherit>".`);
+            }
+            return m[2] ? { type: m[1].toLowerCase(), scope: m[2], bump } : { type: m[1].toLowerCase(), bump };
+        });
+    return [...configured, ...DEFAULT_BUMP_RULES];
+}
+
+// Scope specific rules win over type-only rules; unknown types never bump
+export function resolveBumpLevel(type: string | null, scope: string | null, rules: BumpRule[]): BumpLevel {
+    if (!type) {
+        return "none";
+    }
+    const scoped = scope ? rules.find(r => r.type === type && r.scope === scope) : undefined;
+    const rule = scoped ?? rules.find(r => r.type === type && r.scope === undefined);
+    return rule ? rule.bump : "none";
+}
+
+// Keywords shown to users, e.g. "`feat`, `fix`, or `BREAKING CHANGE`"
+export function describeBumpKeywords(rules: BumpRule[]) {
+    const keywords: string[] = [];
+    const seen = new Set<string>();
+    for (const rule of rules) {
+        const key = `${rule.type}(${rule.scope ?? ""})`;
+        if (seen.has(key)) {
+            continue;
+        }
+        seen.add(key);
+        if (rule.bump !== "none") {
+            keywords.push(`\`${rule.type}${rule.scope ? `(${rule.scope})` : ""}\``);
+        }
+    }
+    keywords.push("`BREAKING CHANGE`");
+    return keywords.length > 1
+        ? `${keywords.slice(0, -1).join(", ")}, or ${keywords[keywords.length - 1]}`
+        : keywords[0];
+}
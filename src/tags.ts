@@ -0,0 +1,68 @@
+export type TagType = "lightweight" | "annotated";
+
+export interface Tagger {
+    name: string;
+    email: string;
+    date?: string;
+}
+
+// Everything needed to create an annotated tag object
+export interface AnnotatedTagOptions {
+    message: string;
+    tagger: Tagger;
+    signature?: string;
+}
+
+export const DEFAULT_TAG_MESSAGE = "{changelog}";
+export const DEFAULT_TAGGER: Tagger = {
+    name: "github-actions[bot]",
+    email: "41898282+github-actions[bot]@users.noreply.github.com",
+};
+
+// Validates the tag_type input
+export function parseTagType(value: string): TagType {
+    const type = (value || "").trim().toLowerCase() || "lightweight";
+    if (type !== "lightweight" && type !== "annotated") {
+        throw new Error(`Invalid tag_type "${value}". Expected lightweight or annotated.`);
+    }
+    return type;
+}
+
+// Fills {tag}, {version}, {changelog} and {pr_title} of the tag_message template
+export function renderTagMessage(template: string, values: { tag: string; version: string; changelog: string; prTitle?: string }) {
+    const map: Record<string, string> = {
+        tag: values.tag,
+        version: values.version,
+        changelog: values.changelog,
+        pr_title: values.prTitle ?? "",
+    };
+    const message = (template || DEFAULT_TAG_MESSAGE).replace(/\{(\w+)\}/g, (match, key: string) => key in map ? map[key] : match).trim();
+    return message || values.tag;
+}
+
+// A detached signature is only valid for the exact tag object it was created with, so an earlier step must know all of it:
+// the tagger date, a message without the changelog (it holds the date) and the commit (no version commit of this run)
+export function validateSignature(signature: string, tagger: Tagger, options: { tagMessage: string; versionFiles: boolean }) {
+    const trimmed = (signature || "").trim();
+    if (!trimmed) {
+        return undefined;
+    }
+    if (!/^-----BEGIN PGP SIGNATURE-----[\s\S]+-----END PGP SIGNATURE-----$/.test(trimmed)) {
+        throw new Error("tag_signature must be an ASCII armored detached PGP signature.");
+    }
+    if (!tagger.date) {
+        throw new Error("tagger_date is required with tag_signature; the signature covers the tagger date.");
+    }
+    if ((options.tagMessage || DEFAULT_TAG_MESSAGE).includes("{changelog}")) {
+        throw new Error("tag_signature needs a fixed tag_message without {changelog}; the signature covers the message.");
+    }
+    if (options.versionFiles) {
+        throw new Error("tag_signature can't be used with version_files; the tag would point at a version commit created later in this run.");
+    }
+    return trimmed;
+}
+
+// git stores the signature at the end of the tag message
+export function signedTagMessage(options: AnnotatedTagOptions) {
+    return options.signature ? `${options.message}\n${options.signature}\n` : options.message;
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import coreMock from "./mocks/actionsCore";
+
+async function importApi() {
+    vi.resetModules();
+    vi.clearAllMocks();
+    vi.doMock("@actions/core", () => coreMock);
+    return await import("../src/api");
+}
+
+function apiError(status: number, message: string, headers: Record<string, string> = {}) {
+    return Object.assign(new Error(message), { status, response: { headers } });
+}
+
+const createRef = { method: "POST", url: "/repos/{owner}/{repo}/git/refs" };
+
+describe("GitHub API layer", () => {
+    let api: Awaited<ReturnType<typeof importApi>>;
+    beforeEach(async () => {
+        api = await importApi();
+    });
+
+    it("sorts errors into kinds", () => {
+        expect(api.apiErrorKind(apiError(404, "Not Found"))).toBe("not_found");
+        expect(api.apiErrorKind(apiError(422, "Reference already exists"))).toBe("validation");
+        expect(api.apiErrorKind(apiError(403, "Resource not accessible by integration"))).toBe("permission");
+        expect(api.apiErrorKind(apiError(403, "API rate limit exceeded", { "x-ratelimit-remaining": "0" }))).toBe("rate_limit");
+        expect(api.apiErrorKind(apiError(403, "You have exceeded a secondary rate limit"))).toBe("rate_limit");
+        expect(api.apiErrorKind(apiError(502, "Bad Gateway"))).toBe("server");
+        expect(api.apiErrorKind(new Error("boom"))).toBe("other");
+    });
+
+    it("names the workflow permission of a route", () => {
+        expect(api.requiredPermission(createRef)).toBe("contents: write");
+        expect(api.requiredPermission({ method: "GET", url: "/repos/{owner}/{repo}/tags" })).toBe("contents: read");
+        expect(api.requiredPermission({ method: "POST", url: "/repos/{owner}/{repo}/issues/{issue_number}/comments" })).toBe("pull-requests: write");
+        expect(api.requiredPermission({ method: "POST", url: "/repos/{owner}/{repo}/check-runs" })).toBe("checks: write");
+        expect(api.requiredPermission({ method: "GET", url: "/user" })).toBeNull();
+    });
+
+    it("waits for retry-after, the rate limit reset or an exponential backoff", () => {
+        expect(api.apiRetryDelay(apiError(502, "Bad Gateway"), 2)).toBe(2000);
+        expect(api.apiRetryDelay(apiError(429, "Too Many Requests", { "retry-after": "5" }), 1)).toBe(5000);
+        expect(api.apiRetryDelay(apiError(403, "API rate limit exceeded", { "x-ratelimit-remaining": "0", "x-ratelimit-reset": "100" }), 1, 90_000)).toBe(11_000);
+        expect(api.apiRetryDelay(apiError(403, "API rate limit exceeded", { "x-ratelimit-remaining": "0", "x-ratelimit-reset": "4000" }), 1, 0)).toBeNull();
+    });
+
+    it("retries server errors and returns the response", async () => {
+        const wait = vi.fn(async () => undefined);
+        const send = vi.fn()
+            .mockRejectedValueOnce(apiError(502, "Bad Gateway"))
+            .mockResolvedValueOnce({ data: { ref: "refs/tags/v1.2.4" } });
+
+        await expect(api.withApiRetries(send, createRef, wait)).resolves.toEqual({ data: { ref: "refs/tags/v1.2.4" } });
+        expect(wait).toHaveBeenCalledWith(1000);
+        expect(coreMock.warning).toHaveBeenCalledWith("POST /repos/{owner}/{repo}/git/refs failed with 502; retrying in 1000 ms (attempt 2 of 3).");
+    });
+
+    it("gives up after the last attempt", async () => {
+        const send = vi.fn(async () => {
+            throw apiError(503, "Service Unavailable");
+        });
+
+        await expect(api.withApiRetries(send, createRef, async () => undefined)).rejects.toThrow(
+            "POST /repos/{owner}/{repo}/git/refs failed with 503 after 3 attempt(s): Service Unavailable"
+        );
+        expect(send).toHaveBeenCalledTimes(3);
+    });
+
+    it("turns a denied request into the permission to add", async () => {
+        const send = vi.fn(async () => {
+            throw apiError(403, "Resource not accessible by integration");
+        });
+
+        const err = await api.withApiRetries(send, createRef).catch(e => e);
+        expect(err).toBeInstanceOf(api.GitHubApiError);
+        expect(err.status).toBe(403);
+        expect(err.message).toBe('GitHub denied POST /repos/{owner}/{repo}/git/refs (403: Resource not accessible by integration). Add "contents: write" to the permissions of the workflow job, or use a token that has it.');
+        expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it("leaves not found and validation errors to the caller", async () => {
+        const notFound = apiError(404, "Not Found");
+        await expect(api.withApiRetries(async () => { throw notFound; }, createRef)).rejects.toBe(notFound);
+        const exists = apiError(422, "Reference already exists");
+        await expect(api.withApiRetries(async () => { throw exists; }, createRef)).rejects.toBe(exists);
+    });
+
+    it("wraps every request of the client", async () => {
+        const wrap = vi.fn();
+        api.installApiLayer({ hook: { wrap } });
+        const [name, wrapper] = wrap.mock.calls[0];
+        expect(name).toBe("request");
+        const request = vi.fn(async () => ({ data: "ok" }));
+        await expect(wrapper(request, { method: "GET", url: "/repos/{owner}/{repo}/tags" })).resolves.toEqual({ data: "ok" });
+        expect(request).toHaveBeenCalledWith({ method: "GET", url: "/repos/{owner}/{repo}/tags" });
+    });
+});
@@ -0,0 +1,43 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, describe, it, expect } from "vitest";
+import { assetUploads, contentTypeFor, findReleaseAssets, parseAssetPatterns, renderChecksums } from "../src/assets.js";
+
+const root = mkdtempSync(join(tmpdir(), "release-assets-"));
+mkdirSync(join(root, "dist", "linux"), { recursive: true });
+mkdirSync(join(root, "node_modules", "x"), { recursive: true });
+writeFileSync(join(root, "dist", "app.zip"), "zip");
+writeFileSync(join(root, "dist", "linux", "app.tar.gz"), "tgz");
+writeFileSync(join(root, "dist", "linux", "app.zip"), "other zip");
+writeFileSync(join(root, "node_modules", "x", "lib.zip"), "dep");
+
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+describe("release assets", () => {
+    it("parses the patterns and picks content types", () => {
+        expect(parseAssetPatterns("dist/*.zip\n\n# docs\n  dist/**/*.tar.gz  ")).toEqual(["dist/*.zip", "dist/**/*.tar.gz"]);
+        expect(contentTypeFor("app.tar.gz")).toBe("application/gzip");
+        expect(contentTypeFor("app.ZIP")).toBe("application/zip");
+        expect(contentTypeFor("app")).toBe("application/octet-stream");
+    });
+
+    it("finds the files with checksums", () => {
+        const assets = findReleaseAssets(["./dist/*.zip", "dist/**/*.tar.gz"], root);
+        expect(assets.map(a => [a.name, a.contentType, a.size])).toEqual([
+            ["app.zip", "application/zip", 3],
+            ["app.tar.gz", "application/gzip", 3],
+        ]);
+        expect(assets[0].sha256).toBe("4a70fe9aa6436e02c2dea340fbd1e352e4ef2d8ce6ca52ad25d4b95471fc8bf2");
+        expect(renderChecksums(assets)).toBe(`${assets[0].sha256}  app.zip\n${assets[1].sha256}  app.tar.gz\n`);
+        const uploads = assetUploads(assets, true);
+        expect(uploads.map(u => u.name)).toEqual(["app.zip", "app.tar.gz", "SHA256SUMS"]);
+        expect(uploads[2].data.toString()).toBe(renderChecksums(assets));
+    });
+
+    it("fails for patterns without files and duplicate names", () => {
+        expect(() => findReleaseAssets(["dist/*.exe"], root)).toThrow('release_assets pattern "dist/*.exe" matched no files.');
+        expect(() => findReleaseAssets(["**/lib.zip"], root)).toThrow("matched no files");
+        expect(() => findReleaseAssets(["**/*.zip"], root)).toThrow("Release assets dist/app.zip and dist/linux/app.zip have the same name app.zip.");
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { parseBranchRules, matchBranch, resolveBranchChannel, parseMaintenanceRange, isWithinRange, checkIncreaseInRange } from "../src/branches.js";
+
+describe("parseBranchRules", () => {
+    it("parses patterns with optional channels", () => {
+        expect(parseBranchRules("main\nnext: beta\n\nrelease/*: stable # maintenance\n")).toEqual([
+            { pattern: "main" },
+            { pattern: "next", channel: "beta" },
+            { pattern: "release/*" },
+        ]);
+    });
+    it("rejects entries without a pattern", () => {
+        expect(() => parseBranchRules(": beta")).toThrow("Invalid branches entry");
+    });
+});
+
+describe("matchBranch", () => {
+    it("matches globs per path segment", () => {
+        expect(matchBranch("main", "main")).toBe(true);
+        expect(matchBranch("release/*", "release/1.x")).toBe(true);
+        expect(matchBranch("release/*", "release/1.x/hotfix")).toBe(false);
+        expect(matchBranch("release/**", "release/1.x/hotfix")).toBe(true);
+        expect(matchBranch("1.x", "1-x")).toBe(false);
+    });
+});
+
+describe("resolveBranchChannel", () => {
+    const rules = parseBranchRules("main\nnext: beta\nrelease/*");
+
+    it("resolves the first matching rule", () => {
+        expect(resolveBranchChannel(rules, "next")).toEqual({ branch: "next", pattern: "next", prerelease: "beta", range: undefined });
+        expect(resolveBranchChannel(rules, "feature/x")).toBeNull();
+    });
+    it("derives maintenance ranges from the branch name", () => {
+        expect(resolveBranchChannel(rules, "release/1.x")?.range).toEqual({ major: 1 });
+        expect(parseMaintenanceRange("release/v2.3.x")).toEqual({ major: 2, minor: 3 });
+        expect(parseMaintenanceRange("main")).toBeUndefined();
+    });
+});
+
+describe("maintenance ranges", () => {
+    it("filters versions within the range", () => {
+        expect(isWithinRange([1, 9, 0], { major: 1 })).toBe(true);
+        expect(isWithinRange([2, 0, 0], { major: 1 })).toBe(false);
+        expect(isWithinRange([1, 2, 5], { major: 1, minor: 2 })).toBe(true);
+        expect(isWithinRange([1, 3, 0], { major: 1, minor: 2 })).toBe(false);
+        expect(isWithinRange([9, 9, 9])).toBe(true);
+    });
+    it("refuses bumps that leave the range", () => {
+        const major = { branch: "1.x", pattern: "*.x", range: { major: 1 } };
+        const minor = { branch: "1.2.x", pattern: "*.x", range: { major: 1, minor: 2 } };
+        expect(checkIncreaseInRange("minor", major)).toBeNull();
+        expect(checkIncreaseInRange("major", major)).toContain("A major bump is not allowed on maintenance branch 1.x");
+        expect(checkIncreaseInRange("patch", minor)).toBeNull();
+        expect(checkIncreaseInRange("minor", minor)).toContain("Only patch releases within 1.2.x are possible.");
+        expect(checkIncreaseInRange("major", { branch: "main", pattern: "main" })).toBeNull();
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { renderChangelog, renderChangelogEntry, prependChangelog } from "../src/changelog.js";
+import { parseCommit } from "../src/index.js";
+
+const ctx = { owner: "octo", repo: "hello-world", tag: "v1.3.0", previousTag: "v1.2.3", date: "2026-01-02" };
+
+describe("renderChangelogEntry", () => {
+    it("renders scope, short sha and PR link", () => {
+        expect(renderChangelogEntry(parseCommit("feat(api): add endpoint (#7)", "abcdef123456"), ctx)).toBe(
+            "- **api:** add endpoint ([abcdef1](https://github.com/octo/hello-world/commit/abcdef123456)) ([#7](https://github.com/octo/hello-world/pull/7))"
+        );
+        expect(renderChangelogEntry(parseCommit("fix: crash"), { ...ctx, prNumber: 3 })).toBe(
+            "- crash ([#3](https://github.com/octo/hello-world/pull/3))"
+        );
+    });
+});
+
+describe("renderChangelog", () => {
+    it("groups commits by type", () => {
+        const commits = [
+            parseCommit("feat: new option", "1111111"),
+            parseCommit("fix(ui): button", "2222222"),
+            parseCommit("feat!: drop node 18\n\nBREAKING CHANGE: node 20 is required", "3333333"),
+            parseCommit("docs: readme", "4444444"),
+            parseCommit("Merge pull request #1 from a/b", "5555555"),
+        ];
+        expect(renderChangelog(commits, ctx)).toBe(
+            "## v1.3.0 (2026-01-02)\n\n" +
+            "### ⚠ Breaking Changes\n\n- node 20 is required ([3333333](https://github.com/octo/hello-world/commit/3333333))\n\n" +
+            "### ✨ Features\n\n- new option ([1111111](https://github.com/octo/hello-world/commit/1111111))\n\n" +
+            "### 🐛 Bug Fixes\n\n- **ui:** button ([2222222](https://github.com/octo/hello-world/commit/2222222))\n"
+        );
+    });
+    it("fills the configured template", () => {
+        const result = renderChangelog([parseCommit("perf: faster")], ctx, "# {tag}\n{compare_url}\n{sections}{unknown}");
+        expect(result).toBe("# v1.3.0\nhttps://github.com/octo/hello-world/compare/v1.2.3...v1.3.0\n_No notable changes._\n{unknown}\n");
+    });
+});
+
+describe("prependChangelog", () => {
+    it("keeps the title on top", () => {
+        expect(prependChangelog("# Changelog\n\n## v1\n", "## v2\n")).toBe("# Changelog\n\n## v2\n\n## v1\n");
+        expect(prependChangelog("## v1\n", "## v2\n")).toBe("## v2\n\n## v1\n");
+        expect(prependChangelog("", "## v1\n")).toBe("## v1\n");
+    });
+});
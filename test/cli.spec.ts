@@ -0,0 +1,122 @@
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { main, parseRemoteUrl } from "../src/cli.js";
+
+const repo = mkdtempSync(join(tmpdir(), "release-cli-"));
+
+function git(...args: string[]) {
+    return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], { cwd: repo, encoding: "utf8" }).trim();
+}
+
+function commit(message: string) {
+    git("commit", "--allow-empty", "-q", "-m", message);
+    return git("rev-parse", "HEAD");
+}
+
+git("init", "-q", "-b", "main");
+git("remote", "add", "origin", "git@github.com:octo/hello-world.git");
+commit("feat: first");
+git("tag", "v1.0.0");
+git("checkout", "-q", "-b", "hotfix");
+commit("fix: on another branch");
+git("tag", "v1.0.1");
+git("checkout", "-q", "main");
+const fixSha = commit("fix: crash");
+commit("feat: search\n\nCloses #4");
+commit("chore: tidy");
+
+afterAll(() => rmSync(repo, { recursive: true, force: true }));
+
+async function runCli(...argv: string[]) {
+    let out = "";
+    let err = "";
+    const code = await main(["--cwd", repo, ...argv], { write: (s: string) => (out += s, true) } as any, { write: (s: string) => (err += s, true) } as any);
+    return { code, out, err };
+}
+
+describe("release-tag-commit CLI", () => {
+    it("parses remote URLs", () => {
+        expect(parseRemoteUrl("https://github.com/octo/hello-world.git")).toEqual({ serverUrl: "https://github.com", owner: "octo", repo: "hello-world" });
+        expect(parseRemoteUrl("git@gitlab.example.com:group/sub/app.git")).toEqual({ serverUrl: "https://gitlab.example.com", owner: "group/sub", repo: "app" });
+        expect(parseRemoteUrl("ssh://git@host:2222/octo/app")).toEqual({ serverUrl: "https://host", owner: "octo", repo: "app" });
+        expect(parseRemoteUrl("")).toBeNull();
+    });
+
+    it("prints the next version and changelog as JSON", async () => {
+        const { code, out } = await runCli("--json", "--v-prefix");
+        expect(code).toBe(0);
+        const result = JSON.parse(out);
+        expect(result).toMatchObject({ new_tag: "v1.1.0", previous_tag: "v1.0.1", bump: "minor", version: "1.1.0", major: "1", minor: "1", patch: "0" });
+        expect(result.commits).toHaveLength(2);
+        expect(result.changelog).toContain(`- crash ([${fixSha.slice(0, 7)}](https://github.com/octo/hello-world/commit/${fixSha}))`);
+        expect(result.changelog).not.toContain("on another branch");
+    });
+
+    it("only considers tags reachable from the ref with tag scope ancestry", async () => {
+        const { out } = await runCli("--json", "--v-prefix", "--tag-scope", "ancestry");
+        const result = JSON.parse(out);
+        expect(result).toMatchObject({ new_tag: "v1.1.0", previous_tag: "v1.0.0" });
+    });
+
+    it("reads the config file and lets options override it", async () => {
+        writeFileSync(join(repo, ".release-tag-commit.yml"), "tag_format: release-{version}\nprerelease: rc\n");
+        try {
+            expect(JSON.parse((await runCli("--json")).out)).toMatchObject({ new_tag: "release-0.1.0-rc.0", previous_tag: "" });
+            expect(JSON.parse((await runCli("--json", "--tag-format", "v{version}", "--prerelease", "beta")).out)).toMatchObject({ new_tag: "v1.1.0-beta.0" });
+        } finally {
+            rmSync(join(repo, ".release-tag-commit.yml"));
+        }
+    });
+
+    it("picks the channel of the branch from the branches setting", async () => {
+        writeFileSync(join(repo, ".release-tag-commit.yml"), "branches: |\n  main\n  next: beta\n");
+        git("tag", "v2.0.0-beta.0", fixSha);
+        try {
+            expect(JSON.parse((await runCli("--json", "--v-prefix")).out)).toMatchObject({ new_tag: "v1.1.0", previous_tag: "v1.0.1" });
+            expect(JSON.parse((await runCli("--json", "--v-prefix", "--branch", "next")).out)).toMatchObject({ new_tag: "v2.0.0-beta.1", previous_tag: "v2.0.0-beta.0" });
+            const other = await runCli("--json", "--branch", "feature/x");
+            expect(other.code).toBe(1);
+            expect(other.err).toContain("Branch feature/x does not match any entry of the branches setting.");
+        } finally {
+            git("tag", "-d", "v2.0.0-beta.0");
+            rmSync(join(repo, ".release-tag-commit.yml"));
+        }
+    });
+
+    it("prints a summary and reports when nothing is released", async () => {
+        const { out } = await runCli("--v-prefix", "--force-bump", "major");
+        expect(out).toMatch(/^Latest tag: v1.0.1\nNext tag: v2.0.0 \(major\)\n\n## v2\.0\.0 \(/);
+
+        const none = await runCli("--v-prefix", "--json", "--ref", "v1.0.1");
+        expect(JSON.parse(none.out)).toMatchObject({ new_tag: "", bump: "none" });
+    });
+
+    it("renders the changelog without links in a clone without a remote", async () => {
+        const dir = mkdtempSync(join(tmpdir(), "release-cli-local-"));
+        const local = (...args: string[]) => execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], { cwd: dir, encoding: "utf8" }).trim();
+        local("init", "-q", "-b", "main");
+        local("commit", "--allow-empty", "-q", "-m", "feat: first");
+        local("tag", "v1.0.0");
+        local("commit", "--allow-empty", "-q", "-m", "fix: crash (#7)");
+        const sha = local("rev-parse", "HEAD");
+        let out = "";
+        const code = await main(["--cwd", dir, "--json", "--v-prefix", "--changelog-template", "{compare_url}|{sections}"], { write: (s: string) => (out += s, true) } as any, { write: () => true } as any);
+        rmSync(dir, { recursive: true, force: true });
+        expect(code).toBe(0);
+        const result = JSON.parse(out);
+        expect(result.new_tag).toBe("v1.0.1");
+        expect(result.changelog).toBe(`|### 🐛 Bug Fixes\n\n- crash (${sha.slice(0, 7)}) (#7)\n`);
+    });
+
+    it("fails with the git error outside a repository", async () => {
+        const dir = mkdtempSync(join(tmpdir(), "release-cli-empty-"));
+        let err = "";
+        const code = await main(["--cwd", dir], { write: () => true } as any, { write: (s: string) => (err += s, true) } as any);
+        rmSync(dir, { recursive: true, force: true });
+        expect(code).toBe(1);
+        expect(err).toContain("not a git repository");
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { parseRepoConfig, resolveInput } from "../src/config.js";
+
+describe("parseRepoConfig", () => {
+    it("converts YAML values to input strings", () => {
+        const config = parseRepoConfig([
+            "v_prefix: true",
+            "bump_rules:",
+            "  perf: patch",
+            "  docs: none",
+            "branches:",
+            "  - main",
+            "  - \"next: beta\"",
+            "changelog_template: |",
+            "  ## {tag}",
+            "  {sections}",
+        ].join("\n"), ".release-tag-commit.yml");
+        expect(config).toEqual({
+            v_prefix: "true",
+            bump_rules: "perf: patch\ndocs: none",
+            branches: "main\nnext: beta",
+            changelog_template: "## {tag}\n{sections}\n",
+        });
+    });
+
+    it("reads JSON and accepts empty files", () => {
+        expect(parseRepoConfig('{ "comment_pr": false, "tag_type": "annotated" }', ".release-tag-commit.json"))
+            .toEqual({ comment_pr: "false", tag_type: "annotated" });
+        expect(parseRepoConfig("", ".release-tag-commit.yml")).toEqual({});
+    });
+
+    it("lists unknown keys and wrong types", () => {
+        expect(() => parseRepoConfig("v_prefix: \"yes\"\ntoken: abc\nbump_rules:\n  feat:\n    - minor\n", "cfg.yml")).toThrow(
+            'Invalid config file cfg.yml:\n- "v_prefix" must be a boolean.\n- Unknown key "token".\n- "bump_rules" must be a string, a list of strings or a mapping of strings.'
+        );
+        expect(() => parseRepoConfig("- a\n- b\n", "cfg.yml")).toThrow("expected a mapping of options at the top level");
+        expect(() => parseRepoConfig("{ nope", "cfg.json")).toThrow("Invalid config file cfg.json:");
+    });
+});
+
+describe("resolveInput", () => {
+    it("prefers the input, then the config file, then the default", () => {
+        expect(resolveInput("v_prefix", "false", { v_prefix: "true" })).toBe("false");
+        expect(resolveInput("v_prefix", "", { v_prefix: "true" })).toBe("true");
+        expect(resolveInput("mark_release_as_latest", "", {})).toBe("true");
+        expect(resolveInput("changelog_file", "", {})).toBe("");
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { matchTagFormat, parseTagFormat, renderTagFormat } from "../src/format.js";
+
+describe("parseTagFormat", () => {
+    it("accepts {version} or all version parts", () => {
+        expect(parseTagFormat("")).toBeNull();
+        expect(parseTagFormat(" release-{major}.{minor}.{patch} ")).toBe("release-{major}.{minor}.{patch}");
+        expect(parseTagFormat("{package}/v{version}")).toBe("{package}/v{version}");
+    });
+    it("rejects unknown, missing and repeated placeholders", () => {
+        expect(() => parseTagFormat("{major}.{minor}.{build}")).toThrow("unknown placeholder {build}");
+        expect(() => parseTagFormat("{major}.{minor}")).toThrow("exactly once");
+        expect(() => parseTagFormat("{version}-{patch}")).toThrow("exactly once");
+        expect(() => parseTagFormat("v{version}")).not.toThrow();
+    });
+});
+
+describe("tag formats", () => {
+    it("renders tags with pre-release identifiers after the patch number", () => {
+        expect(renderTagFormat("release-{major}.{minor}.{patch}", [1, 3, 0])).toBe("release-1.3.0");
+        expect(renderTagFormat("{package}/v{version}", [1, 3, 0, "rc", 2], { package: "api" })).toBe("api/v1.3.0-rc.2");
+        expect(renderTagFormat("{major}.{minor}.{patch}+build.{run_number}", [1, 3, 0, "rc", 0], { runNumber: 7 })).toBe("1.3.0-rc.0+build.7");
+    });
+    it("parses tags with the same template and ignores other formats", () => {
+        expect(matchTagFormat("release-{major}.{minor}.{patch}", "release-1.2.3")).toEqual([1, 2, 3]);
+        expect(matchTagFormat("release-{major}.{minor}.{patch}", "v1.2.3")).toBeNull();
+        expect(matchTagFormat("{package}/v{version}", "api/v1.3.0-rc.2", { package: "api" })).toEqual([1, 3, 0, "rc", 2]);
+        expect(matchTagFormat("{package}/v{version}", "web/v1.3.0", { package: "api" })).toBeNull();
+        expect(matchTagFormat("{major}.{minor}.{patch}+build.{run_number}", "1.3.0-rc.0+build.12")).toEqual([1, 3, 0, "rc", 0]);
+        expect(matchTagFormat("{major}.{minor}.{patch}+build.{run_number}", "1.3.0")).toBeNull();
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { createGitHubProvider } from "../src/github.js";
+import { makeGithubMock } from "./mocks/actionsGithub";
+
+function provider(opts?: Parameters<typeof makeGithubMock>[0]) {
+    const { spies } = makeGithubMock(opts);
+    const octokit = spies.getOctokit() as any;
+    return { spies, forge: createGitHubProvider(octokit, "octo", "hello-world", "https://github.example.com") };
+}
+
+describe("GitHub provider", () => {
+    it("creates releases with the same options as the Action", async () => {
+        const { spies, forge } = provider();
+        const release = await forge.createRelease({ tag: "v1.3.0", sha: "abc123", name: "v1.3.0", body: "notes", prerelease: false, generateNotes: true, makeLatest: false, draft: true });
+        expect(spies.rest.repos.createRelease).toHaveBeenCalledWith({
+            owner: "octo",
+            repo: "hello-world",
+            tag_name: "v1.3.0",
+            target_commitish: "abc123",
+            name: "v1.3.0",
+            generate_release_notes: true,
+            draft: true,
+            prerelease: false,
+            make_latest: "false",
+        });
+        expect(release).toMatchObject({ id: 2, url: "https://example.com/new-release" });
+
+        await forge.createRelease({ tag: "v1.3.1", sha: "abc123", name: "v1.3.1", body: "notes", prerelease: true });
+        expect(spies.rest.repos.createRelease).toHaveBeenLastCalledWith(expect.objectContaining({ body: "notes", generate_release_notes: false, draft: false, prerelease: true }));
+        expect(spies.rest.repos.createRelease.mock.lastCall[0]).not.toHaveProperty("make_latest");
+    });
+
+    it("finds draft releases, which getReleaseByTag doesn't return", async () => {
+        const { forge } = provider({ releases: [{ id: 7, draft: true, tag_name: "v1.3.0", html_url: "https://example.com/draft", target_commitish: "abc123", assets: [] }] });
+        expect(await forge.getRelease("v1.3.0")).toEqual({ id: 7, url: "https://example.com/draft", target: "abc123", draft: true, assets: [] });
+        expect(await forge.getRelease("v1.4.0")).toBeNull();
+        expect(forge.links.compare("v1.0.0", "v1.1.0")).toBe("https://github.example.com/octo/hello-world/compare/v1.0.0...v1.1.0");
+    });
+
+    it("reads the commits and files of a pull request", async () => {
+        const { forge } = provider({ commitMessages: ["feat: a", "fix: b"], prFiles: ["src/a.ts"] });
+        expect(await forge.listChangeCommits(5)).toEqual([{ sha: "c0ffee0", message: "feat: a" }, { sha: "c0ffee1", message: "fix: b" }]);
+        expect(await forge.listChangeFiles(5)).toEqual(["src/a.ts"]);
+        expect(await forge.getCommit("abc123")).toEqual({ sha: "abc123", message: "feat: a" });
+    });
+});
@@ -0,0 +1,272 @@
+import { mkdtempSync, rmSync } from "fs";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_CHANGELOG_TEMPLATE } from "../src/changelog.js";
+import { main } from "../src/cli.js";
+import { releaseOnForge } from "../src/forge.js";
+import { createGitLabProvider } from "../src/gitlab.js";
+import { createTagNaming } from "../src/index.js";
+import { parseBumpRules } from "../src/rules.js";
+
+// In-memory GitLab project served on the REST API v4 routes the provider uses
+interface StubState {
+    tags: Array<{ name: string; commit: { id: string } }>;
+    commits: Array<{ id: string; message: string }>;
+    notes: Array<{ id: number; body: string }>;
+    releases: Array<{ tag_name: string; name: string; description: string; ref: string }>;
+    requests: string[];
+    denyWrites: boolean;
+    failReleases: boolean;
+}
+
+let state: StubState;
+let apiUrl = "";
+const prefix = "/api/v4/projects/group%2Fapp";
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { "content-type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+}
+
+function releaseJson(release: { tag_name: string; ref?: string }) {
+    return { tag_name: release.tag_name, commit: { id: release.ref }, _links: { self: `https://gitlab.example.com/group/app/-/releases/${release.tag_name}` } };
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+    let raw = "";
+    for await (const chunk of req) {
+        raw += chunk;
+    }
+    const body = raw ? JSON.parse(raw) : {};
+    const url = new URL(req.url ?? "", "http://stub");
+    const path = url.pathname.slice(prefix.length);
+    state.requests.push(`${req.method} ${path}`);
+    if (req.headers["private-token"] !== "secret") {
+        return send(res, 401, { message: "401 Unauthorized" });
+    }
+    if (state.denyWrites && req.method !== "GET") {
+        return send(res, 403, { message: "403 Forbidden" });
+    }
+
+    if (req.method === "GET" && path === "/repository/tags") {
+        // two per page to exercise x-next-page
+        const page = Number(url.searchParams.get("page") ?? "1");
+        const next = page * 2 < state.tags.length ? String(page + 1) : "";
+        return send(res, 200, state.tags.slice((page - 1) * 2, page * 2), { "x-next-page": next });
+    }
+    const tagMatch = /^\/repository\/tags\/(.+)$/.exec(path);
+    if (req.method === "GET" && tagMatch) {
+        const tag = state.tags.find(t => t.name === decodeURIComponent(tagMatch[1]));
+        return tag ? send(res, 200, tag) : send(res, 404, { message: "404 Tag Not Found" });
+    }
+    if (req.method === "POST" && path === "/repository/tags") {
+        state.tags.unshift({ name: body.tag_name, commit: { id: body.ref } });
+        return send(res, 201, state.tags[0]);
+    }
+    if (req.method === "GET" && path === "/repository/compare") {
+        const from = state.tags.find(t => t.name === url.searchParams.get("from"))?.commit.id;
+        const to = state.commits.findIndex(c => c.id === url.searchParams.get("to"));
+        const start = state.commits.findIndex(c => c.id === from);
+        return send(res, 200, { commits: state.commits.slice(to, start) });
+    }
+    if (req.method === "GET" && path === "/repository/commits") {
+        const to = state.commits.findIndex(c => c.id === url.searchParams.get("ref_name"));
+        return send(res, 200, url.searchParams.get("page") === "1" ? state.commits.slice(to) : [], { "x-next-page": "" });
+    }
+    const commitMatch = /^\/repository\/commits\/(\w+)$/.exec(path);
+    if (req.method === "GET" && commitMatch) {
+        const commit = state.commits.find(c => c.id === commitMatch[1]);
+        return commit ? send(res, 200, commit) : send(res, 404, { message: "404 Commit Not Found" });
+    }
+    if (req.method === "GET" && path === "/merge_requests/7/commits") {
+        return send(res, 200, state.commits.slice(0, 2), { "x-next-page": "" });
+    }
+    if (req.method === "GET" && path === "/merge_requests/7/diffs") {
+        return send(res, 200, [{ old_path: "src/a.ts", new_path: "src/a.ts" }, { old_path: "old.md", new_path: "docs/new.md" }], { "x-next-page": "" });
+    }
+    const releaseMatch = /^\/releases\/(.+)$/.exec(path);
+    if (req.method === "GET" && releaseMatch) {
+        const release = state.releases.find(r => r.tag_name === decodeURIComponent(releaseMatch[1]));
+        return release ? send(res, 200, releaseJson(release)) : send(res, 404, { message: "404 Not Found" });
+    }
+    if (req.method === "POST" && path === "/releases") {
+        if (state.failReleases) {
+            return send(res, 500, { message: "500 Internal Server Error" });
+        }
+        state.releases.push(body);
+        return send(res, 201, releaseJson(body));
+    }
+    if (path === "/merge_requests/7/notes") {
+        if (req.method === "GET") {
+            return send(res, 200, state.notes, { "x-next-page": "" });
+        }
+        state.notes.push({ id: state.notes.length + 1, body: body.body });
+        return send(res, 201, state.notes[state.notes.length - 1]);
+    }
+    const noteMatch = /^\/merge_requests\/7\/notes\/(\d+)$/.exec(path);
+    if (req.method === "PUT" && noteMatch) {
+        const note = state.notes.find(n => n.id === Number(noteMatch[1]))!;
+        note.body = body.body;
+        return send(res, 200, note);
+    }
+    send(res, 404, { message: "404 Not Found" });
+}
+
+const server = createServer((req, res) => {
+    handle(req, res).catch(err => send(res, 500, { message: String(err) }));
+});
+
+beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v4`;
+});
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+    state = {
+        tags: [
+            { name: "v1.1.0", commit: { id: "c2" } },
+            { name: "v1.0.0", commit: { id: "c1" } },
+            { name: "nightly", commit: { id: "c3" } },
+        ],
+        commits: [
+            { id: "c5", message: "feat: search" },
+            { id: "c4", message: "fix: crash" },
+            { id: "c3", message: "chore: tidy" },
+            { id: "c2", message: "feat: login" },
+            { id: "c1", message: "feat: first" },
+        ],
+        notes: [{ id: 1, body: "looks good" }],
+        releases: [],
+        requests: [],
+        denyWrites: false,
+        failReleases: false,
+    };
+});
+
+function provider(token = "secret") {
+    return createGitLabProvider({ apiUrl, project: "group/app", token, webUrl: "https://gitlab.example.com/group/app" });
+}
+
+const releaseOptions = {
+    sha: "c5",
+    naming: createTagNaming(null, true),
+    vPrefix: true,
+    bumpRules: parseBumpRules(""),
+    changelogTemplate: DEFAULT_CHANGELOG_TEMPLATE,
+};
+
+describe("GitLab provider", () => {
+    it("reads tags across pages, tag commits and commits since a tag", async () => {
+        const gitlab = provider();
+        expect(await gitlab.listTags()).toEqual([{ name: "v1.1.0", sha: "c2" }, { name: "v1.0.0", sha: "c1" }, { name: "nightly", sha: "c3" }]);
+        expect(await gitlab.getTagRef("v1.0.0")).toBe("c1");
+        expect(await gitlab.getTagRef("v9.9.9")).toBeNull();
+        expect((await gitlab.listCommits("v1.1.0", "c5")).map(c => c.sha)).toEqual(["c5", "c4", "c3"]);
+        expect(await gitlab.listCommits(null, "c2")).toEqual([{ sha: "c2", message: "feat: login" }, { sha: "c1", message: "feat: first" }]);
+        expect(await gitlab.getCommit("c4")).toEqual({ sha: "c4", message: "fix: crash" });
+        expect(await gitlab.getCommit("c9")).toBeNull();
+    });
+
+    it("reads the commits and files of a merge request and its releases", async () => {
+        const gitlab = provider();
+        expect(await gitlab.listChangeCommits(7)).toEqual([{ sha: "c5", message: "feat: search" }, { sha: "c4", message: "fix: crash" }]);
+        expect(await gitlab.listChangeFiles(7)).toEqual(["src/a.ts", "docs/new.md"]);
+        expect(await gitlab.getRelease("v1.1.0")).toBeNull();
+        state.releases.push({ tag_name: "v1.1.0", name: "v1.1.0", description: "", ref: "c2" });
+        expect(await gitlab.getRelease("v1.1.0")).toEqual({ url: "https://gitlab.example.com/group/app/-/releases/v1.1.0", target: "c2", draft: false });
+    });
+
+    it("comments the next tag on a merge request and updates the same note later", async () => {
+        const first = await releaseOnForge(provider(), { ...releaseOptions, changeNumber: 7 });
+        expect(first).toMatchObject({ new_tag: "v1.2.0", previous_tag: "v1.1.0", bump: "minor", tag_created: false });
+        expect(state.notes).toHaveLength(2);
+        // the Action's preview comment
+        expect(state.notes[1].body).toContain("🔖 **Next tag:** `v1.2.0`\n\n- Reason: **minor** bump inferred from commit messages.\n  - `c5` feat: search → minor\n");
+        expect(state.notes[1].body).toContain("- Prefix `v`: **on**\n- Status: Preview only; tag will be created if this PR is merged.");
+
+        await releaseOnForge(provider(), { ...releaseOptions, changeNumber: 7, forcedBump: "major", commentTemplate: "Releasing {tags} ({bump})" });
+        expect(state.notes).toHaveLength(2);
+        expect(state.notes[1].body).toContain("Releasing v2.0.0 (major)");
+        expect(state.tags.map(t => t.name)).not.toContain("v1.2.0");
+    });
+
+    it("creates the tag and the release", async () => {
+        const result = await releaseOnForge(provider(), { ...releaseOptions, createRelease: true });
+        expect(result).toMatchObject({ new_tag: "v1.2.0", tag_created: true, release_url: "https://gitlab.example.com/group/app/-/releases/v1.2.0" });
+        expect(state.tags[0]).toEqual({ name: "v1.2.0", commit: { id: "c5" } });
+        expect(state.releases[0]).toMatchObject({ tag_name: "v1.2.0", name: "v1.2.0" });
+        expect(state.releases[0].description).toContain("- crash ([c4](https://gitlab.example.com/group/app/-/commit/c4))");
+    });
+
+    it("links the changelog to GitLab's commit, merge request and compare pages", async () => {
+        state.commits[0].message = "feat: search (#7)";
+        const result = await releaseOnForge(provider(), { ...releaseOptions, changelogTemplate: "{compare_url}\n{sections}" });
+        expect(result.changelog).toContain("https://gitlab.example.com/group/app/-/compare/v1.1.0...v1.2.0\n");
+        expect(result.changelog).toContain("- search ([c5](https://gitlab.example.com/group/app/-/commit/c5)) ([#7](https://gitlab.example.com/group/app/-/merge_requests/7))");
+    });
+
+    it("verifies the tag of an earlier run and creates the release it failed to create", async () => {
+        state.failReleases = true;
+        await expect(releaseOnForge(provider(), { ...releaseOptions, createRelease: true })).rejects.toThrow(/POST \/releases failed with 500/);
+        expect(state.tags[0]).toEqual({ name: "v1.2.0", commit: { id: "c5" } });
+
+        state.failReleases = false;
+        state.requests = [];
+        const rerun = await releaseOnForge(provider(), { ...releaseOptions, createRelease: true });
+        expect(rerun).toMatchObject({ new_tag: "v1.2.0", previous_tag: "v1.1.0", bump: "minor", tag_created: false, release_url: "https://gitlab.example.com/group/app/-/releases/v1.2.0" });
+        expect(state.requests.filter(r => !r.startsWith("GET"))).toEqual(["POST /releases"]);
+
+        // the next re-run finds both
+        state.requests = [];
+        expect(await releaseOnForge(provider(), { ...releaseOptions, createRelease: true })).toMatchObject({ new_tag: "v1.2.0", tag_created: false });
+        expect(state.requests.filter(r => !r.startsWith("GET"))).toEqual([]);
+
+        // also once a later merge is tagged
+        state.tags.unshift({ name: "v1.2.1", commit: { id: "c9" } });
+        state.requests = [];
+        expect(await releaseOnForge(provider(), { ...releaseOptions, createRelease: true })).toMatchObject({ new_tag: "v1.2.0", previous_tag: "v1.1.0", tag_created: false });
+        expect(state.requests.filter(r => !r.startsWith("GET"))).toEqual([]);
+    });
+
+    it("explains rejected writes", async () => {
+        state.denyWrites = true;
+        await expect(releaseOnForge(provider(), releaseOptions)).rejects.toThrow(/POST \/repository\/tags failed with 403.*api scope/);
+        await expect(provider("wrong").listTags()).rejects.toMatchObject({ status: 401 });
+    });
+
+    it("runs from the CLI with the GitLab CI variables", async () => {
+        let out = "";
+        let err = "";
+        // no config file in the working directory
+        const cwd = mkdtempSync(join(tmpdir(), "release-forge-"));
+        const env = {
+            GITLAB_TOKEN: "secret",
+            CI_API_V4_URL: apiUrl,
+            CI_PROJECT_ID: "group/app",
+            CI_PROJECT_URL: "https://gitlab.example.com/group/app",
+            CI_COMMIT_SHA: "c5",
+        };
+        const code = await main(
+            ["--cwd", cwd, "--forge", "gitlab", "--v-prefix", "--json", "--dry-run"],
+            { write: (s: string) => (out += s, true) } as any,
+            { write: (s: string) => (err += s, true) } as any,
+            env,
+        );
+        expect(code).toBe(0);
+        expect(JSON.parse(out)).toMatchObject({ new_tag: "v1.2.0", tag_created: false, release_url: "" });
+        expect(err).toContain("[dry-run] Would create tag v1.2.0 on c5.");
+        expect(state.requests.filter(r => !r.startsWith("GET"))).toEqual([]);
+
+        const preview = await main(["--cwd", cwd, "--forge", "gitlab", "--v-prefix"], { write: () => true } as any, { write: () => true } as any, { ...env, CI_MERGE_REQUEST_IID: "7" });
+        expect(preview).toBe(0);
+        expect(state.notes[1].body).toContain("**Next tag:** `v1.2.0`");
+        rmSync(cwd, { recursive: true, force: true });
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from "vitest";
-import { parseTagFromName, compareTags, detectVersionIncrease, nextTag, formatTagToString } from "../src/index.js";
+import { parseTagFromName, compareTags, detectVersionIncrease, nextTag, formatTagToString, parseCommit, analyzeCommits, maxVersionIncrease, nextVersion, parsePrereleaseChannel, selectCommitSource, parseCommitSource, bumpMismatchWarning, parseTagScope, parseMismatchPolicy, parseFloatingTags, floatingTagsFor, createTagNaming } from "../src/index.js";
 
 import coreMock from "./mocks/actionsCore";
 import { makeGithubMock } from "./mocks/actionsGithub";
@@ -25,7 +25,19 @@ describe("parseTagFromName", () => {
         expect(parseTagFromName("something")).toBeNull();
         expect(parseTagFromName("v1.2")).toBeNull();
         expect(parseTagFromName("1.2")).toBeNull();
-        expect(parseTagFromName("v1.2.3-beta")).toBeNull();
+        expect(parseTagFromName("v1.2.3-")).toBeNull();
+        expect(parseTagFromName("v1.2.3-rc..1")).toBeNull();
+    });
+    it("parses per-package prefixes", () => {
+        expect(parseTagFromName("api@1.2.3", "api@")).toEqual([1, 2, 3]);
+        expect(parseTagFromName("api/v1.2.3", "api/")).toEqual([1, 2, 3]);
+        expect(parseTagFromName("web@1.2.3", "api@")).toBeNull();
+        expect(parseTagFromName("api@1.2.3")).toBeNull();
+    });
+    it("parses pre-release identifiers and ignores build metadata", () => {
+        expect(parseTagFromName("v1.2.3-beta")).toEqual([1, 2, 3, "beta"]);
+        expect(parseTagFromName("1.3.0-rc.2")).toEqual([1, 3, 0, "rc", 2]);
+        expect(parseTagFromName("1.3.0-rc.2+build.7")).toEqual([1, 3, 0, "rc", 2]);
     });
 });
 
@@ -35,6 +47,17 @@ describe("compareTags", () => {
         expect(compareTags([2, 0, 0], [1, 0, 0])).toBe(1);
         expect(compareTags([1, 0, 0], [1, 0, 0])).toBe(0);
     });
+    it("follows SemVer 2.0 pre-release precedence", () => {
+        // 1.0.0-alpha < 1.0.0-alpha.1 < 1.0.0-alpha.beta < 1.0.0-beta < 1.0.0-beta.2 < 1.0.0-beta.11 < 1.0.0-rc.1 < 1.0.0
+        const ordered = ["1.0.0-alpha", "1.0.0-alpha.1", "1.0.0-alpha.beta", "1.0.0-beta", "1.0.0-beta.2", "1.0.0-beta.11", "1.0.0-rc.1", "1.0.0"]
+            .map(t => parseTagFromName(t)!);
+        for (let i = 0; i < ordered.length - 1; i++) {
+            expect(compareTags(ordered[i], ordered[i + 1])).toBe(-1);
+            expect(compareTags(ordered[i + 1], ordered[i])).toBe(1);
+        }
+        expect(compareTags([1, 3, 0, "rc", 1], [1, 3, 0, "rc", 1])).toBe(0);
+        expect(compareTags([1, 3, 0, "rc", 1], [1, 2, 9])).toBe(1);
+    });
 });
 
 describe("detectVersionIncrease", () => {
@@ -66,6 +89,82 @@ describe("detectVersionIncrease", () => {
     });
 });
 
+describe("parseCommit", () => {
+    it("splits header into type, scope and subject", () => {
+        const c = parseCommit("feat(api): add endpoint", "abc1234");
+        expect(c).toMatchObject({ sha: "abc1234", type: "feat", scope: "api", subject: "add endpoint", breaking: false, bump: "minor" });
+    });
+    it("collects footers and flags breaking changes", () => {
+        const c = parseCommit("fix: patch\n\nsome body\n\nRefs: #12\nBREAKING CHANGE: removed option");
+        expect(c.footers).toEqual([
+            { token: "Refs", value: "#12" },
+            { token: "BREAKING CHANGE", value: "removed option" },
+        ]);
+        expect(c.breaking).toBe(true);
+        expect(c.bump).toBe("major");
+    });
+    it("keeps non conventional headers as subject", () => {
+        const c = parseCommit("Merge pull request #1 from x/y");
+        expect(c.type).toBeNull();
+        expect(c.subject).toBe("Merge pull request #1 from x/y");
+        expect(c.bump).toBeNull();
+    });
+});
+
+describe("analyzeCommits", () => {
+    it("takes the highest bump across all commits", () => {
+        const result = analyzeCommits([
+            { sha: "1", message: "chore: deps" },
+            { sha: "2", message: "fix: bug" },
+            { sha: "3", message: "feat: new thing" },
+        ]);
+        expect(result.bump).toBe("minor");
+        expect(result.commits.map(c => c.bump)).toEqual([null, "patch", "minor"]);
+    });
+    it("returns null when nothing bumps", () => {
+        expect(analyzeCommits([{ message: "docs: readme" }]).bump).toBeNull();
+        expect(analyzeCommits([]).bump).toBeNull();
+    });
+    it("maxVersionIncrease orders bumps", () => {
+        expect(maxVersionIncrease("patch", "major")).toBe("major");
+        expect(maxVersionIncrease(null, "minor")).toBe("minor");
+        expect(maxVersionIncrease("patch", null)).toBe("patch");
+    });
+});
+
+describe("selectCommitSource", () => {
+    const pr = { title: "feat(api): squash title", body: "BREAKING CHANGE: removed v1" };
+    const prCommits = [{ sha: "1", message: "fix: a" }];
+    const mergeCommit = { sha: "m", message: "feat(api): squash title (#3)" };
+
+    it("selects the configured source", () => {
+        expect(selectCommitSource("commits", pr, prCommits, mergeCommit)).toEqual([mergeCommit, ...prCommits]);
+        expect(selectCommitSource("commits", pr, prCommits)).toEqual(prCommits);
+        expect(selectCommitSource("pr_title", pr, prCommits, mergeCommit)).toEqual([{ sha: "m", message: "feat(api): squash title" }]);
+        expect(selectCommitSource("pr_title_and_body", pr, prCommits)).toEqual([{ sha: undefined, message: "feat(api): squash title\n\nBREAKING CHANGE: removed v1" }]);
+        expect(selectCommitSource("merge_commit", pr, prCommits, mergeCommit)).toEqual([mergeCommit]);
+        expect(selectCommitSource("merge_commit", { title: "fix: x" }, prCommits)).toEqual([{ message: "fix: x" }]);
+    });
+    it("validates the input", () => {
+        expect(parseCommitSource("")).toBe("commits");
+        expect(parseCommitSource("PR_TITLE")).toBe("pr_title");
+        expect(() => parseCommitSource("title")).toThrow('Invalid commit_source "title"');
+        expect(parseTagScope("")).toBe("repository");
+        expect(parseTagScope("Ancestry")).toBe("ancestry");
+        expect(() => parseTagScope("branch")).toThrow('Invalid tag_scope "branch"');
+    });
+    it("parses mismatch_policy", () => {
+        expect(parseMismatchPolicy("")).toBe("retry");
+        expect(parseMismatchPolicy("Move")).toBe("move");
+        expect(() => parseMismatchPolicy("heal")).toThrow('Invalid mismatch_policy "heal". Expected retry, fail, skip or move.');
+    });
+    it("warns only when title and commits disagree", () => {
+        expect(bumpMismatchWarning("minor", "minor")).toBeNull();
+        expect(bumpMismatchWarning(null, "patch", false)).toBeNull();
+        expect(bumpMismatchWarning(null, "patch")).toContain("The PR title implies a **no** bump, but the commits imply a **patch** bump.");
+    });
+});
+
 describe("nextTag", () => {
     it("upgrade major", () => {
         expect(nextTag(1, 2, 3, "major")).toEqual([2, 0, 0]);
@@ -87,6 +186,35 @@ describe("formatTagToString", () => {
         expect(formatTagToString(1, 2, 3, true)).toBe("v1.2.3");
         expect(formatTagToString(1, 2, 3, false)).toBe("1.2.3");
     });
+    it("appends pre-release identifiers", () => {
+        expect(formatTagToString(1, 3, 0, true, ["rc", 0])).toBe("v1.3.0-rc.0");
+    });
+});
+
+describe("nextVersion", () => {
+    it("starts a pre-release channel from a stable version", () => {
+        expect(nextVersion([1, 2, 3], "minor", "rc")).toEqual([1, 3, 0, "rc", 0]);
+        expect(nextVersion([1, 2, 3], "patch", "beta")).toEqual([1, 2, 4, "beta", 0]);
+    });
+    it("increments the counter when the pre-release already contains the bump", () => {
+        expect(nextVersion([1, 3, 0, "rc", 0], "minor", "rc")).toEqual([1, 3, 0, "rc", 1]);
+        expect(nextVersion([1, 3, 0, "rc", 1], "patch", "rc")).toEqual([1, 3, 0, "rc", 2]);
+    });
+    it("restarts the counter on a bigger bump or another channel", () => {
+        expect(nextVersion([1, 3, 0, "rc", 4], "major", "rc")).toEqual([2, 0, 0, "rc", 0]);
+        expect(nextVersion([1, 3, 0, "beta", 4], "minor", "rc")).toEqual([1, 3, 0, "rc", 0]);
+    });
+    it("graduates a pre-release to stable without a channel", () => {
+        expect(nextVersion([1, 3, 0, "rc", 2], "minor")).toEqual([1, 3, 0]);
+        expect(nextVersion([1, 3, 0, "rc", 2], "major")).toEqual([2, 0, 0]);
+        expect(nextVersion([1, 2, 3], "patch")).toEqual([1, 2, 4]);
+    });
+    it("validates the channel input", () => {
+        expect(parsePrereleaseChannel("")).toBeUndefined();
+        expect(parsePrereleaseChannel(" rc ")).toBe("rc");
+        expect(() => parsePrereleaseChannel("rc.1")).toThrow("Invalid prerelease");
+        expect(() => parsePrereleaseChannel("12")).toThrow("Invalid prerelease");
+    });
 });
 
 describe("upsertPrComment (using integration mocks)", () => {
@@ -198,3 +326,22 @@ describe("upsertPrComment (using integration mocks)", () => {
     expect(octo.rest.issues.updateComment).not.toHaveBeenCalled();
   });
 });
+
+describe("floating tags", () => {
+    const naming = createTagNaming(null, true);
+    const tags = ["v1.4.0", "v1.3.5", "v1.3.4", "v2.0.0-rc.0"];
+    it("parses update_floating_tags", () => {
+        expect(parseFloatingTags("")).toBe("none");
+        expect(parseFloatingTags("true")).toBe("major");
+        expect(parseFloatingTags("Minor")).toBe("minor");
+        expect(() => parseFloatingTags("patch")).toThrow('Invalid update_floating_tags "patch"');
+    });
+    it("only moves lines where the new version is the highest", () => {
+        expect(floatingTagsFor([1, 4, 1], tags, naming, "minor")).toEqual(["v1", "v1.4"]);
+        expect(floatingTagsFor([1, 3, 6], tags, naming, "minor")).toEqual(["v1.3"]);
+        expect(floatingTagsFor([1, 3, 6], tags, naming, "major")).toEqual([]);
+        expect(floatingTagsFor([2, 0, 0, "rc", 1], tags, naming, "major")).toEqual([]);
+        expect(floatingTagsFor([2, 0, 0], tags, naming, "major")).toEqual(["v2"]);
+        expect(floatingTagsFor([1, 4, 1], tags, createTagNaming("{package}/v{version}", false, { name: "api", path: "api/**", tagPrefix: "api@" }), "major")).toEqual(["api/v1"]);
+    });
+});
@@ -1,3 +1,6 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 process.env.NODE_ENV = "test";
 
@@ -62,7 +65,22 @@ describe("integration test", () => {
         );
     });
 
-    it("does nothing if the next tag already exists", async () => {
+    it("detects a feat that is not the first commit of the PR", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["chore: cleanup", "fix: bug", "feat: new option"]
+        });
+        await mod.run();
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.3.0" })
+        );
+        expect(coreMock.info).toHaveBeenCalledWith(
+            expect.stringContaining("`c0ffee2` feat: new option → minor")
+        );
+    });
+
+    it("does nothing if the next tag already exists on the merge commit", async () => {
         const { gh, mod } = await importWithMocks({
             tags: [{ name: "v1.2.3" }],
             commitMessages: ["fix: bug"],
@@ -424,4 +442,1345 @@ describe("integration test", () => {
         expect(octo.rest.repos.createRelease).not.toHaveBeenCalled();
         expect(coreMock.setFailed).not.toHaveBeenCalled();
     });
+
+    it("sets outputs for the created tag and release", async () => {
+        const { mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["feat: thing"]
+        });
+
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "create_release") return "true";
+            return "";
+        });
+
+        await mod.run();
+
+        const outputs = Object.fromEntries(coreMock.setOutput.mock.calls);
+        expect(outputs).toEqual({
+            new_tag: "v1.3.0",
+            previous_tag: "v1.2.3",
+            bump: "minor",
+            version: "1.3.0",
+            major: "1",
+            minor: "3",
+            patch: "0",
+            tag_created: "true",
+            release_created: "true",
+            release_url: "https://example.com/new-release",
+            is_preview: "false",
+            packages: "[]",
+            changelog: expect.stringContaining("## v1.3.0"),
+            release_pr_url: "",
+        });
+    });
+
+    it("sets bump none and is_preview outputs when nothing is bumped on an open PR", async () => {
+        const { mod, coreMock } = await importWithMocks({
+            pr: { merged: false, number: 3 } as any,
+            commitMessages: ["docs: readme"]
+        });
+
+        await mod.run();
+
+        expect(coreMock.setOutput).toHaveBeenCalledWith("bump", "none");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("new_tag", "");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("tag_created", "false");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("is_preview", "true");
+    });
+
+    it("tags the pushed sha using payload.commits on push events", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            eventName: "push",
+            payload: {
+                ref: "refs/heads/main",
+                after: "pushsha",
+                commits: [{ id: "1", message: "fix: a" }, { id: "2", message: "feat: b" }],
+            },
+            tags: [{ name: "v1.2.3" }],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.pulls.listCommits).not.toHaveBeenCalled();
+        expect(octo.rest.repos.compareCommitsWithBasehead).not.toHaveBeenCalled();
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.3.0", sha: "pushsha" })
+        );
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the compare range from the latest tag on push events without commits", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            eventName: "push",
+            payload: { ref: "refs/heads/main", after: "pushsha", commits: [] },
+            tags: [{ name: "v1.2.3" }],
+            compareMessages: ["feat!: drop node 18"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(
+            expect.objectContaining({ basehead: "v1.2.3...pushsha" })
+        );
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v2.0.0", sha: "pushsha" })
+        );
+    });
+
+    it("uses the forced bump on workflow_dispatch", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            eventName: "workflow_dispatch",
+            payload: { inputs: {} },
+            sha: "dispatchsha",
+            tags: [{ name: "v1.2.3" }],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "force_bump") return "minor";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.repos.compareCommitsWithBasehead).not.toHaveBeenCalled();
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.3.0", sha: "dispatchsha" })
+        );
+    });
+
+    it("fails on an invalid force_bump and on unsupported events", async () => {
+        const first = await importWithMocks({ eventName: "workflow_dispatch", payload: {} });
+        first.coreMock.getInput.mockImplementation((name: string) => name === "force_bump" ? "huge" : "");
+        await first.mod.run();
+        expect(first.coreMock.setFailed).toHaveBeenCalledWith('Invalid force_bump "huge". Expected major, minor or patch.');
+
+        const second = await importWithMocks({ eventName: "issues", payload: {} });
+        second.coreMock.getInput.mockImplementation(() => "");
+        await second.mod.run();
+        expect(second.coreMock.setFailed).toHaveBeenCalledWith('Unsupported event "issues". Use pull_request, push or workflow_dispatch.');
+    });
+
+    it("creates a pre-release tag and release on the configured channel", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }, { name: "v1.3.0-rc.0" }],
+            commitMessages: ["feat: more"]
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "create_release") return "true";
+            if (name === "mark_release_as_latest") return "true";
+            if (name === "prerelease") return "rc";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.3.0-rc.1" })
+        );
+        expect(octo.rest.repos.createRelease).toHaveBeenCalledWith(
+            expect.objectContaining({ tag_name: "v1.3.0-rc.1", prerelease: true, make_latest: "false" })
+        );
+        expect(coreMock.setOutput).toHaveBeenCalledWith("version", "1.3.0-rc.1");
+    });
+
+    it("uses the channel of the PR base branch and only tags within its maintenance range", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 9, merge_commit_sha: "abc123", base: { ref: "release/1.x" } } as any,
+            tags: [{ name: "v2.1.0" }, { name: "v1.4.2" }, { name: "v1.4.1" }],
+            commitMessages: ["fix: backport"]
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "branches") return "main\nnext: beta\nrelease/*";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.4.3" })
+        );
+    });
+
+    it("refuses a feat on a patch-only maintenance branch", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 9, merge_commit_sha: "abc123", base: { ref: "release/1.4.x" } } as any,
+            tags: [{ name: "v1.4.2" }],
+            commitMessages: ["feat: new"]
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "branches") return "main\nrelease/*";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(coreMock.setFailed).toHaveBeenCalledWith(
+            "A minor bump is not allowed on maintenance branch release/1.4.x. Only patch releases within 1.4.x are possible."
+        );
+        expect(octo.rest.git.createRef).not.toHaveBeenCalled();
+    });
+
+    it("uses the pre-release channel mapped to the pushed branch and skips unmapped branches", async () => {
+        const next = await importWithMocks({
+            eventName: "push",
+            payload: { ref: "refs/heads/next", after: "pushsha", commits: [{ id: "1", message: "feat: x" }] },
+            tags: [{ name: "1.2.3" }],
+        });
+        next.coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "branches") return "main\nnext: beta";
+            return "";
+        });
+        await next.mod.run();
+        const octo = next.gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/1.3.0-beta.0" })
+        );
+
+        const other = await importWithMocks({
+            eventName: "push",
+            payload: { ref: "refs/heads/feature/x", after: "pushsha", commits: [{ id: "1", message: "feat: x" }] },
+        });
+        await other.mod.run();
+        expect(other.coreMock.info).toHaveBeenCalledWith("Branch feature/x does not match any entry of the branches input. Nothing to do.");
+        expect(other.gh.github.getOctokit.mock.results[0].value.rest.git.createRef).not.toHaveBeenCalled();
+    });
+
+    it("starts a stable branch from its highest stable tag, not the pre-release of another channel", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 9, merge_commit_sha: "abc123", base: { ref: "main" } } as any,
+            tags: [{ name: "v2.0.0-beta.0" }, { name: "v1.2.3" }],
+            commitMessages: ["fix: crash"]
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "branches") return "main\nnext: beta";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.2.4" })
+        );
+        expect(coreMock.setOutput).toHaveBeenCalledWith("previous_tag", "v1.2.3");
+    });
+
+    it("bumps with configured rules and lists them in the 'No bump detected' comment", async () => {
+        const bumped = await importWithMocks({
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["perf: faster startup"]
+        });
+        bumped.coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "bump_rules") return "perf: patch\ndocs: none";
+            return "";
+        });
+        await bumped.mod.run();
+        expect(bumped.gh.github.getOctokit.mock.results[0].value.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.2.4" })
+        );
+
+        const skipped = await importWithMocks({
+            pr: { merged: false, number: 11 } as any,
+            commitMessages: ["docs: readme"]
+        });
+        skipped.coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "comment_pr") return "true";
+            if (name === "bump_rules") return "perf: patch\ndocs: none";
+            return "";
+        });
+        await skipped.mod.run();
+        const octo = skipped.gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.issues.createComment.mock.calls[0][0].body).toContain(
+            "I looked for `perf`, `feat`, `fix`, or `BREAKING CHANGE` in the PR commits."
+        );
+    });
+
+    it("tags every touched package with its own bump in monorepo mode", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "api@1.2.3" }, { name: "web/v0.4.0" }, { name: "v9.9.9" }],
+            commitMessages: ["feat: api endpoint", "fix: web layout", "docs: readme"],
+            prFiles: ["packages/api/src/a.ts", "packages/web/index.ts", "README.md"],
+            commitFiles: {
+                c0ffee0: ["packages/api/src/a.ts"],
+                c0ffee1: ["packages/web/index.ts"],
+                c0ffee2: ["README.md"],
+            },
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "false";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "comment_pr") return "true";
+            if (name === "packages") return "api: packages/api/**\nweb: packages/web/** web/v\ncli: packages/cli/**";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        const refs = octo.rest.git.createRef.mock.calls.map((c: any[]) => c[0].ref);
+        expect(refs).toEqual(["refs/tags/api@1.3.0", "refs/tags/web/v0.4.1"]);
+        expect(coreMock.info).toHaveBeenCalledWith("Packages touched: api, web.");
+
+        const body = octo.rest.issues.createComment.mock.calls[0][0].body as string;
+        expect(body).toContain("### 📦 api");
+        expect(body).toContain("**Next tag:** `api@1.3.0`");
+        expect(body).toContain("### 📦 web");
+
+        const packagesOutput = JSON.parse(coreMock.setOutput.mock.calls.find((c: any[]) => c[0] === "packages")[1]);
+        expect(packagesOutput).toEqual([
+            expect.objectContaining({ name: "api", new_tag: "api@1.3.0", previous_tag: "api@1.2.3", bump: "minor", tag_created: true }),
+            expect.objectContaining({ name: "web", new_tag: "web/v0.4.1", version: "0.4.1", bump: "patch" }),
+        ]);
+        expect(coreMock.setOutput).toHaveBeenCalledWith("bump", "minor");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("new_tag", "");
+    });
+
+    it("uses the built-in changelog as release body and prepends it to the changelog file", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 12, merge_commit_sha: "abc123", base: { ref: "main" } } as any,
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["feat(api): add endpoint", "fix: crash"],
+            files: { "CHANGELOG.md": "# Changelog\n\n## v1.2.3\n" },
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "create_release") return "true";
+            if (name === "generate_release_notes") return "true";
+            if (name === "release_notes") return "changelog";
+            if (name === "changelog_file") return "CHANGELOG.md";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        const release = octo.rest.repos.createRelease.mock.calls[0][0];
+        expect(release.generate_release_notes).toBe(false);
+        expect(release.body).toContain("### ✨ Features");
+        // the mocked merge commit repeats the first message, so it is listed once with the merge commit sha
+        expect(release.body).toContain("- **api:** add endpoint ([abc123](https://github.com/octo/hello-world/commit/abc123)) ([#12](https://github.com/octo/hello-world/pull/12))");
+        expect(release.body).toContain("### 🐛 Bug Fixes");
+
+        const update = octo.rest.repos.createOrUpdateFileContents.mock.calls[0][0];
+        expect(update).toMatchObject({ path: "CHANGELOG.md", branch: "main", sha: "filesha", message: "chore(release): v1.3.0 [skip ci]" });
+        const content = Buffer.from(update.content, "base64").toString("utf8");
+        expect(content.startsWith("# Changelog\n\n## v1.3.0")).toBe(true);
+        expect(content).toContain("## v1.2.3");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("creates an annotated tag object and points the ref at it", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 5, merge_commit_sha: "abc123", title: "feat: new stuff" } as any,
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["feat: new stuff"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "tag_type") return "annotated";
+            if (name === "tag_message") return "{tag}: {pr_title}";
+            if (name === "tagger_name") return "Release Bot";
+            if (name === "tagger_email") return "release@example.com";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.git.createTag).toHaveBeenCalledWith({
+            owner: "octo",
+            repo: "hello-world",
+            tag: "v1.3.0",
+            message: "v1.3.0: feat: new stuff",
+            object: "abc123",
+            type: "commit",
+            tagger: { name: "Release Bot", email: "release@example.com", date: undefined },
+        });
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.3.0", sha: "tagobjectsha" })
+        );
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("appends a supplied detached signature to the tag message", async () => {
+        const signature = "-----BEGIN PGP SIGNATURE-----\n\nabc\n-----END PGP SIGNATURE-----";
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["fix: x"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "tag_type") return "annotated";
+            if (name === "tag_message") return "Release {version}";
+            if (name === "tagger_date") return "2026-01-02T03:04:05Z";
+            if (name === "tag_signature") return signature;
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.git.createTag).toHaveBeenCalledWith(expect.objectContaining({
+            message: `Release 1.2.4\n${signature}\n`,
+            tagger: expect.objectContaining({ date: "2026-01-02T03:04:05Z" }),
+        }));
+    });
+
+    it("runs the merged flow for an open PR in dry run without writing", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: false, number: 21, merge_commit_sha: "testmerge", base: { ref: "main" } } as any,
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["feat: thing"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "create_release") return "true";
+            if (name === "release_notes") return "changelog";
+            if (name === "changelog_file") return "CHANGELOG.md";
+            if (name === "comment_pr") return "true";
+            if (name === "tag_type") return "annotated";
+            if (name === "dry_run") return "true";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.git.getRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "tags/v1.3.0" }));
+        expect(octo.rest.repos.getReleaseByTag).toHaveBeenCalled();
+        expect(octo.rest.repos.getContent).toHaveBeenCalled();
+        expect(octo.rest.issues.listComments).toHaveBeenCalled();
+        expect(octo.rest.git.createTag).not.toHaveBeenCalled();
+        expect(octo.rest.git.createRef).not.toHaveBeenCalled();
+        expect(octo.rest.repos.createRelease).not.toHaveBeenCalled();
+        expect(octo.rest.repos.createOrUpdateFileContents).not.toHaveBeenCalled();
+        expect(octo.rest.issues.createComment).not.toHaveBeenCalled();
+        expect(octo.rest.issues.updateComment).not.toHaveBeenCalled();
+
+        const logs = coreMock.info.mock.calls.map((c: any[]) => c[0] as string);
+        expect(logs).toContainEqual(expect.stringContaining("[dry-run] Would create annotated tag v1.3.0 on testmerge"));
+        expect(logs).toContainEqual(expect.stringContaining("[dry-run] Would create release v1.3.0 on testmerge (latest: true) with notes:"));
+        expect(logs).toContainEqual(expect.stringContaining("[dry-run] Would create CHANGELOG.md on main"));
+        expect(logs).toContainEqual(expect.stringContaining("[dry-run] Would create a comment on PR #21:\n🔖 **Next tag:** `v1.3.0`"));
+        expect(coreMock.setOutput).toHaveBeenCalledWith("tag_created", "false");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("bumps from the PR title and warns about disagreeing commits in the preview", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: false, number: 31, title: "feat: squashed feature", body: "" } as any,
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["wip", "fix typo"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "comment_pr") return "true";
+            if (name === "commit_source") return "pr_title";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        const body = octo.rest.issues.createComment.mock.calls[0][0].body as string;
+        expect(body).toContain("**Next tag:** `v1.3.0`");
+        expect(body).toContain("⚠️ The PR title implies a **minor** bump, but the commits imply a **no** bump.");
+        expect(coreMock.warning).toHaveBeenCalledWith(expect.stringContaining("The PR title implies a **minor** bump"));
+    });
+
+    it("uses only the merge commit with commit_source merge_commit", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 32, merge_commit_sha: "abc123", title: "fix: title" } as any,
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["feat!: squash message", "fix: a"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "commit_source") return "merge_commit";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v2.0.0" })
+        );
+    });
+
+    it("publishes a failing semantic check run for non conventional commits", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: false, number: 40, title: "feat: ok", head: { sha: "headsha40" } } as any,
+            commitMessages: ["feat: ok", "oops"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "semantic_check") return "true";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.checks.create).toHaveBeenCalledWith(expect.objectContaining({
+            name: "release-tag-commit/semantic",
+            head_sha: "headsha40",
+            conclusion: "failure",
+            output: expect.objectContaining({ summary: expect.stringContaining("`c0ffee1` `oops`: Commit does not follow") }),
+        }));
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("reports the bump of the release labels in the semantic check", async () => {
+        const patched = await importWithMocks({
+            pr: { merged: false, number: 41, title: "chore: tidy", head: { sha: "headsha41" }, labels: [{ name: "release:patch" }] } as any,
+            commitMessages: ["chore: tidy"],
+        });
+        patched.coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "semantic_check") return "true";
+            if (name === "require_bump") return "true";
+            return "";
+        });
+        await patched.mod.run();
+        expect(patched.gh.spies.rest.checks.create).toHaveBeenCalledWith(expect.objectContaining({
+            conclusion: "success",
+            output: expect.objectContaining({ summary: expect.stringContaining("- Bump on merge: **patch**") }),
+        }));
+
+        const skipped = await importWithMocks({
+            pr: { merged: false, number: 42, title: "feat: new", head: { sha: "headsha42" }, labels: [{ name: "release:skip" }] } as any,
+            commitMessages: ["feat: new"],
+        });
+        skipped.coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "semantic_check") return "true";
+            return "";
+        });
+        await skipped.mod.run();
+        expect(skipped.gh.spies.rest.checks.create).toHaveBeenCalledWith(expect.objectContaining({
+            conclusion: "success",
+            output: expect.objectContaining({ summary: expect.stringContaining("- No new tag will be created on merge.") }),
+        }));
+    });
+
+    it("lets a release label override the bump and names it in the preview", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: false, number: 50, labels: [{ name: "release:major" }] } as any,
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["fix: small"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "comment_pr") return "true";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        const body = octo.rest.issues.createComment.mock.calls[0][0].body as string;
+        expect(body).toContain("**Next tag:** `v2.0.0`");
+        expect(body).toContain("- Reason: **major** bump set by the `release:major` label (commits: **patch**).");
+        expect(body).toContain("- Label override in effect: `release:major`");
+    });
+
+    it("skips the release with the skip label and caps the bump in cap mode", async () => {
+        const skipped = await importWithMocks({
+            pr: { merged: true, number: 51, merge_commit_sha: "abc123", labels: [{ name: "no-release" }] } as any,
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["feat: new"],
+        });
+        skipped.coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "release_labels") return "skip: no-release";
+            return "";
+        });
+        await skipped.mod.run();
+        expect(skipped.gh.github.getOctokit.mock.results[0].value.rest.git.createRef).not.toHaveBeenCalled();
+
+        const capped = await importWithMocks({
+            pr: { merged: true, number: 52, merge_commit_sha: "abc123", labels: [{ name: "release:patch" }] } as any,
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["feat: new"],
+        });
+        capped.coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "label_mode") return "cap";
+            return "";
+        });
+        await capped.mod.run();
+        expect(capped.gh.github.getOctokit.mock.results[0].value.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.2.4" })
+        );
+    });
+
+    it("releases the prerelease label on the channel of the prerelease input", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 53, merge_commit_sha: "abc123", base: { ref: "main" }, labels: [{ name: "release:prerelease" }] } as any,
+            tags: [{ name: "v1.2.3" }, { name: "v1.3.0-beta.0" }],
+            commitMessages: ["feat: new"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "v_prefix") return "true";
+            if (name === "token") return "TEST_TOKEN";
+            // main is stable, so only the label makes this a pre-release
+            if (name === "branches") return "main";
+            if (name === "prerelease") return "beta";
+            return "";
+        });
+        await mod.run();
+        expect(gh.github.getOctokit.mock.results[0].value.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.3.0-beta.1" })
+        );
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("reads options from the config file of the base branch and lets inputs override them", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: false, number: 60, base: { ref: "main" } } as any,
+            tags: [{ name: "1.2.3" }],
+            commitMessages: ["perf: faster"],
+            files: {
+                ".release-tag-commit.yml": [
+                    "v_prefix: true",
+                    "comment_pr: true",
+                    "bump_rules:",
+                    "  perf: minor",
+                    "comment_template: \"{tags} ({bump})\\n\\n{body}\"",
+                ].join("\n"),
+            },
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "false";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.repos.getContent).toHaveBeenCalledWith(expect.objectContaining({ path: ".release-tag-commit.yml", ref: "main" }));
+        const body = octo.rest.issues.createComment.mock.calls[0][0].body as string;
+        expect(body).toContain("1.3.0 (minor)\n\n🔖 **Next tag:** `1.3.0`");
+    });
+
+    it("fails with a clear message for an invalid config file", async () => {
+        const { mod, coreMock } = await importWithMocks({
+            files: { "release.json": '{ "v_prefix": "yes", "tag_prefix": "v" }' },
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "config_file") return "release.json";
+            return "";
+        });
+
+        await mod.run();
+
+        expect(coreMock.setFailed).toHaveBeenCalledWith('Invalid config file release.json:\n- "v_prefix" must be a boolean.\n- Unknown key "tag_prefix".');
+    });
+
+    it("renders the tag with tag_format and ignores tags of other formats", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v9.0.0" }, { name: "release-1.2.3" }, { name: "release-1.2" }],
+            commitMessages: ["fix: crash"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "tag_format") return "release-{major}.{minor}.{patch}";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/release-1.2.4" })
+        );
+        expect(coreMock.setOutput).toHaveBeenCalledWith("previous_tag", "release-1.2.3");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("version", "1.2.4");
+    });
+
+    it("only considers tags reachable from the base commit with tag_scope ancestry", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 70, merge_commit_sha: "abc123", base: { ref: "main", sha: "basesha1234" } } as any,
+            tags: [{ name: "v2.0.0" }, { name: "v1.2.3" }, { name: "v1.2.2" }],
+            commitMessages: ["fix: crash"],
+            unreachableTags: ["v2.0.0"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "tag_scope") return "ancestry";
+            return "";
+        });
+
+        await mod.run();
+
+        const octo = gh.github.getOctokit.mock.results[0].value;
+        expect(octo.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(expect.objectContaining({ basehead: "v2.0.0...basesha1234" }));
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(
+            expect.objectContaining({ ref: "refs/tags/v1.2.4" })
+        );
+        expect(coreMock.info).toHaveBeenCalledWith("Picked v1.2.3: highest tag reachable from basesha; skipped v2.0.0 (diverged, not an ancestor).");
+    });
+
+    it("creates and moves the floating major and minor tags to the release commit", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }, { name: "v1.2.2" }],
+            commitMessages: ["fix: crash"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "update_floating_tags") return "minor";
+            return "";
+        });
+        const octo = gh.spies;
+        octo.rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "tags/v1") {
+                return { data: { ref: "refs/tags/v1" } };
+            }
+            const err: any = new Error("Not Found");
+            err.status = 404;
+            throw err;
+        });
+
+        await mod.run();
+
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "refs/tags/v1.2.4", sha: "abc123" }));
+        expect(octo.rest.git.updateRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "tags/v1", sha: "abc123", force: true }));
+        expect(octo.rest.git.createRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "refs/tags/v1.2", sha: "abc123" }));
+    });
+
+    it("uploads release assets to a draft and publishes it afterwards", async () => {
+        const workspace = mkdtempSync(join(tmpdir(), "workspace-"));
+        mkdirSync(join(workspace, "dist"));
+        writeFileSync(join(workspace, "dist", "app.zip"), "zip");
+        vi.stubEnv("GITHUB_WORKSPACE", workspace);
+        const { gh, mod, coreMock } = await importWithMocks({ commitMessages: ["fix: crash"] });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "create_release") return "true";
+            if (name === "release_assets") return "dist/*.zip";
+            return "";
+        });
+
+        await mod.run();
+        vi.unstubAllEnvs();
+
+        const { rest } = gh.spies;
+        expect(rest.repos.createRelease).toHaveBeenCalledWith(expect.objectContaining({ tag_name: "1.2.4", draft: true }));
+        expect(rest.repos.uploadReleaseAsset).toHaveBeenCalledWith(expect.objectContaining({
+            release_id: 2,
+            name: "app.zip",
+            headers: { "content-type": "application/zip", "content-length": 3 },
+        }));
+        expect(rest.repos.uploadReleaseAsset).toHaveBeenCalledWith(expect.objectContaining({ name: "SHA256SUMS" }));
+        expect(rest.repos.updateRelease).toHaveBeenCalledWith(expect.objectContaining({ release_id: 2, draft: false }));
+        expect(coreMock.setOutput).toHaveBeenCalledWith("release_url", "https://example.com/published-release");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("fails and leaves the draft when an asset upload fails", async () => {
+        const workspace = mkdtempSync(join(tmpdir(), "workspace-"));
+        writeFileSync(join(workspace, "app.zip"), "zip");
+        vi.stubEnv("GITHUB_WORKSPACE", workspace);
+        const { gh, mod, coreMock } = await importWithMocks({ commitMessages: ["fix: crash"] });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "create_release") return "true";
+            if (name === "release_assets") return "*.zip";
+            return "";
+        });
+        gh.spies.rest.repos.uploadReleaseAsset.mockRejectedValueOnce(new Error("Bad Gateway"));
+
+        await mod.run();
+        vi.unstubAllEnvs();
+
+        expect(gh.spies.rest.repos.updateRelease).not.toHaveBeenCalled();
+        expect(coreMock.setFailed).toHaveBeenCalledWith("Failed to upload release asset app.zip: Bad Gateway. The draft release was left in place.");
+    });
+
+    it("resumes the draft release of an earlier run that failed uploading", async () => {
+        const workspace = mkdtempSync(join(tmpdir(), "workspace-"));
+        writeFileSync(join(workspace, "app.zip"), "zip");
+        writeFileSync(join(workspace, "lib.zip"), "lib");
+        vi.stubEnv("GITHUB_WORKSPACE", workspace);
+        const { gh, mod, coreMock } = await importWithMocks({
+            tagExists: true,
+            commitMessages: ["fix: crash"],
+            releases: [{
+                id: 7,
+                draft: true,
+                tag_name: "1.2.4",
+                html_url: "https://example.com/draft",
+                assets: [{ id: 70, name: "app.zip", state: "uploaded" }, { id: 71, name: "lib.zip", state: "starter" }],
+            }],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "create_release") return "true";
+            if (name === "release_assets") return "*.zip";
+            return "";
+        });
+        // only the earlier run's tag 1.2.4 exists, on the merge commit
+        gh.spies.rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "tags/1.2.4") {
+                return { data: { ref: "refs/tags/1.2.4", object: { sha: "abc123", type: "commit" } } };
+            }
+            const err: any = new Error("Not Found");
+            err.status = 404;
+            throw err;
+        });
+        gh.spies.paginate.mockImplementationOnce(async () => [{ name: "1.2.4", commit: { sha: "abc123" } }, { name: "1.2.3" }]);
+
+        await mod.run();
+        vi.unstubAllEnvs();
+
+        const { rest } = gh.spies;
+        expect(rest.repos.getReleaseByTag).toHaveBeenCalledWith(expect.objectContaining({ tag: "1.2.4" }));
+        expect(rest.repos.createRelease).not.toHaveBeenCalled();
+        expect(rest.repos.deleteReleaseAsset).toHaveBeenCalledWith(expect.objectContaining({ asset_id: 71 }));
+        expect(rest.repos.uploadReleaseAsset.mock.calls.map(([c]: any[]) => c.name)).toEqual(["lib.zip", "SHA256SUMS"]);
+        expect(rest.repos.uploadReleaseAsset).toHaveBeenCalledWith(expect.objectContaining({ release_id: 7 }));
+        expect(rest.repos.updateRelease).toHaveBeenCalledWith(expect.objectContaining({ release_id: 7, draft: false }));
+        expect(coreMock.setOutput).toHaveBeenCalledWith("release_created", "true");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("commits the version files to the base branch and tags that commit", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 80, merge_commit_sha: "abc123", base: { ref: "main" } } as any,
+            commitMessages: ["feat: new"],
+            files: { "package.json": '{\n  "name": "x",\n  "version": "1.2.3"\n}\n' },
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "version_files") return "package.json";
+            return "";
+        });
+        const { rest } = gh.spies;
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "heads/main") {
+                return { data: { ref: "refs/heads/main", object: { sha: "abc123" } } };
+            }
+            const err: any = new Error("Not Found");
+            err.status = 404;
+            throw err;
+        });
+
+        await mod.run();
+
+        expect(rest.repos.getContent).toHaveBeenCalledWith(expect.objectContaining({ path: "package.json", ref: "abc123" }));
+        expect(rest.git.createBlob).toHaveBeenCalledWith(expect.objectContaining({ content: '{\n  "name": "x",\n  "version": "1.3.0"\n}\n' }));
+        expect(rest.git.createTree).toHaveBeenCalledWith(expect.objectContaining({
+            base_tree: "basetreesha",
+            tree: [{ path: "package.json", mode: "100644", type: "blob", sha: "blobsha" }],
+        }));
+        expect(rest.git.createCommit).toHaveBeenCalledWith(expect.objectContaining({ message: "chore(release): v1.3.0 [skip ci]", tree: "treesha", parents: ["abc123"] }));
+        expect(rest.git.updateRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "heads/main", sha: "versioncommitsha" }));
+        expect(rest.git.createRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "refs/tags/v1.3.0", sha: "versioncommitsha" }));
+    });
+
+    it("fails instead of committing the version files on top of a later merge", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 80, merge_commit_sha: "abc123", base: { ref: "main" } } as any,
+            commitMessages: ["feat: new"],
+            files: { "package.json": '{ "version": "1.2.3" }\n' },
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "version_files") return "package.json";
+            return "";
+        });
+        const { rest } = gh.spies;
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "heads/main") {
+                return { data: { ref: "refs/heads/main", object: { sha: "latersha" } } };
+            }
+            const err: any = new Error("Not Found");
+            err.status = 404;
+            throw err;
+        });
+
+        await mod.run();
+
+        expect(coreMock.setFailed).toHaveBeenCalledWith(
+            "main moved on to latersha since abc123; a version commit on top would also release the changes merged since. The run of the latest merge releases them together."
+        );
+        expect(rest.git.createCommit).not.toHaveBeenCalled();
+        expect(rest.git.createRef).not.toHaveBeenCalled();
+    });
+
+    it("updates the release PR instead of tagging in release PR mode", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 91, merge_commit_sha: "abc123", base: { ref: "main" }, head: { ref: "feature" } } as any,
+            tags: [{ name: "v1.2.3" }],
+            compareMessages: ["feat: search (#88)", "fix: crash (#91)"],
+            files: { "package.json": '{ "version": "1.2.3" }\n' },
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "release_pr") return "true";
+            if (name === "version_files") return "package.json";
+            if (name === "changelog_file") return "CHANGELOG.md";
+            return "";
+        });
+        const { rest } = gh.spies;
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "heads/main") {
+                return { data: { ref: "refs/heads/main", object: { sha: "mainsha" } } };
+            }
+            const err: any = new Error("Not Found");
+            err.status = 404;
+            throw err;
+        });
+
+        await mod.run();
+
+        expect(rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(expect.objectContaining({ basehead: "v1.2.3...abc123" }));
+        expect(rest.git.createTree.mock.calls[0][0].tree.map((t: any) => t.path)).toEqual(["package.json", "CHANGELOG.md"]);
+        expect(rest.git.createCommit).toHaveBeenCalledWith(expect.objectContaining({ message: "chore(release): v1.3.0", parents: ["mainsha"] }));
+        expect(rest.git.createRef).toHaveBeenCalledWith({ owner: "octo", repo: "hello-world", ref: "refs/heads/release-tag-commit/release", sha: "versioncommitsha" });
+        const created = rest.pulls.create.mock.calls[0][0];
+        expect(created).toMatchObject({ title: "Release v1.3.0", head: "release-tag-commit/release", base: "main" });
+        expect(created.body).toContain("- search ([cafe0](https://github.com/octo/hello-world/commit/cafe0)) ([#88](https://github.com/octo/hello-world/pull/88))");
+        expect(rest.git.createRef).not.toHaveBeenCalledWith(expect.objectContaining({ ref: "refs/tags/v1.3.0" }));
+        expect(coreMock.setOutput).toHaveBeenCalledWith("release_pr_url", "https://example.com/pull/90");
+    });
+
+    it("previews the release PR an open PR joins in release PR mode", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: false, number: 92, base: { ref: "main" }, head: { ref: "feature" } } as any,
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["fix: crash"],
+            compareMessages: ["feat: search (#88)"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "release_pr") return "true";
+            if (name === "comment_pr") return "true";
+            return "";
+        });
+
+        await mod.run();
+
+        const { rest } = gh.spies;
+        expect(rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith(expect.objectContaining({ basehead: "v1.2.3...main" }));
+        const body = rest.issues.createComment.mock.calls[0][0].body as string;
+        expect(body).toContain("**Next tag:** `v1.3.0`");
+        expect(body).toContain("- Status: Preview only; once merged, this change joins the release PR. The version counts every change since the latest tag.");
+        expect(body).not.toContain("tag will be created if this PR is merged");
+        expect(rest.git.createRef).not.toHaveBeenCalled();
+        expect(rest.pulls.create).not.toHaveBeenCalled();
+    });
+
+    it("tags everything since the latest tag when the release PR is merged", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 90, merge_commit_sha: "abc123", base: { ref: "main" }, head: { ref: "release-tag-commit/release" } } as any,
+            tags: [{ name: "v1.2.3" }],
+            compareMessages: ["feat: search (#88)", "chore(release): v1.3.0 (#90)"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "release_pr") return "true";
+            if (name === "version_files") return "package.json";
+            return "";
+        });
+
+        await mod.run();
+
+        const { rest } = gh.spies;
+        expect(rest.git.createRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "refs/tags/v1.3.0", sha: "abc123" }));
+        expect(rest.git.createCommit).not.toHaveBeenCalled();
+        expect(rest.pulls.create).not.toHaveBeenCalled();
+    });
+
+    it("allocates the next free version when another run took the tag", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["fix: crash"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            return "";
+        });
+        const { rest, paginate } = gh.spies;
+        let taken = false;
+        rest.git.createRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "refs/tags/v1.2.4") {
+                taken = true;
+                const err: any = new Error("Reference already exists");
+                err.status = 422;
+                throw err;
+            }
+            return { data: { ref } };
+        });
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "tags/v1.2.4" && taken) {
+                return { data: { ref: "refs/tags/v1.2.4", object: { sha: "othersha", type: "commit" } } };
+            }
+            const err: any = new Error("Not Found");
+            err.status = 404;
+            throw err;
+        });
+        paginate.mockImplementation(async () => taken ? [{ name: "v1.2.4" }, { name: "v1.2.3" }] : [{ name: "v1.2.3" }]);
+
+        vi.useFakeTimers();
+        const running = mod.run();
+        await vi.runAllTimersAsync();
+        await running;
+        vi.useRealTimers();
+
+        expect(coreMock.warning).toHaveBeenCalledWith(expect.stringContaining("Tag v1.2.4 was created on othersha by another run."));
+        expect(rest.git.createRef).toHaveBeenLastCalledWith(expect.objectContaining({ ref: "refs/tags/v1.2.5", sha: "abc123" }));
+        expect(coreMock.setOutput).toHaveBeenCalledWith("new_tag", "v1.2.5");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("stays on the release line of the first pick when retrying with tag_scope ancestry", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 60, merge_commit_sha: "abc123", base: { ref: "main", sha: "basesha" } } as any,
+            commitMessages: ["fix: crash"],
+            unreachableTags: ["v9.0.0"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "tag_scope") return "ancestry";
+            return "";
+        });
+        const { rest, paginate } = gh.spies;
+        let taken = false;
+        rest.git.createRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "refs/tags/v1.2.4") {
+                taken = true;
+                const err: any = new Error("Reference already exists");
+                err.status = 422;
+                throw err;
+            }
+            return { data: { ref } };
+        });
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "tags/v1.2.4" && taken) {
+                return { data: { ref: "refs/tags/v1.2.4", object: { sha: "othersha", type: "commit" } } };
+            }
+            const err: any = new Error("Not Found");
+            err.status = 404;
+            throw err;
+        });
+        paginate.mockImplementation(async () => taken
+            ? [{ name: "v9.0.0" }, { name: "v1.2.4" }, { name: "v1.2.3" }]
+            : [{ name: "v9.0.0" }, { name: "v1.2.3" }]);
+
+        vi.useFakeTimers();
+        const running = mod.run();
+        await vi.runAllTimersAsync();
+        await running;
+        vi.useRealTimers();
+
+        expect(rest.git.createRef).toHaveBeenLastCalledWith(expect.objectContaining({ ref: "refs/tags/v1.2.5", sha: "abc123" }));
+        expect(coreMock.setOutput).toHaveBeenCalledWith("new_tag", "v1.2.5");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("gives up when the tag keeps pointing at another commit", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["fix: crash"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            return "";
+        });
+        const { rest } = gh.spies;
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => ({
+            data: { ref: `refs/${ref}`, object: { sha: "othersha", type: "commit" } },
+        }));
+
+        vi.useFakeTimers();
+        const running = mod.run();
+        await vi.runAllTimersAsync();
+        await running;
+        vi.useRealTimers();
+
+        const retries = coreMock.warning.mock.calls.filter(([msg]: [string]) => msg.includes("Re-reading the tags"));
+        expect(retries).toHaveLength(4);
+        expect(rest.git.createRef).not.toHaveBeenCalled();
+        expect(coreMock.setFailed).toHaveBeenCalledWith("Tag v1.2.8 already points at othersha, not abc123. Giving up after 5 attempts.");
+    });
+
+    it("verifies the tag of an earlier run instead of allocating the next version", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.4", commit: { sha: "abc123" } }, { name: "v1.2.3" }],
+            commitMessages: ["fix: crash"],
+            releaseExists: true,
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "create_release") return "true";
+            return "";
+        });
+        const { rest } = gh.spies;
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "tags/v1.2.4") {
+                return { data: { ref: "refs/tags/v1.2.4", object: { sha: "tagobjectsha", type: "tag" } } };
+            }
+            const err: any = new Error("Not Found");
+            err.status = 404;
+            throw err;
+        });
+
+        await mod.run();
+
+        expect(rest.git.getTag).toHaveBeenCalledWith(expect.objectContaining({ tag_sha: "tagobjectsha" }));
+        expect(rest.git.createRef).not.toHaveBeenCalled();
+        expect(rest.repos.createRelease).not.toHaveBeenCalled();
+        expect(coreMock.info).toHaveBeenCalledWith("Tag v1.2.4 already exists on abc123. Nothing to do.");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("new_tag", "v1.2.4");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("previous_tag", "v1.2.3");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("verifies the tag of an earlier run after a later merge was tagged", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.5", commit: { sha: "latersha" } }, { name: "v1.2.4", commit: { sha: "abc123" } }, { name: "v1.2.3" }],
+            commitMessages: ["fix: crash"],
+            tagExists: true,
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            return "";
+        });
+
+        await mod.run();
+
+        const { rest } = gh.spies;
+        expect(rest.git.createRef).not.toHaveBeenCalled();
+        expect(coreMock.info).toHaveBeenCalledWith("Tag v1.2.4 already points at abc123; re-run, verifying it instead of allocating the next version.");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("new_tag", "v1.2.4");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("previous_tag", "v1.2.3");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("verifies the tag on the version commit of an earlier run", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 81, merge_commit_sha: "abc123", base: { ref: "main" } } as any,
+            tags: [{ name: "v1.3.0", commit: { sha: "versioncommitsha" } }, { name: "v1.2.3" }],
+            commitMessages: ["feat: new"],
+            files: { "package.json": '{\n  "name": "x",\n  "version": "1.3.0"\n}\n' },
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "version_files") return "package.json";
+            return "";
+        });
+        const { rest } = gh.spies;
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "tags/v1.3.0") {
+                return { data: { ref: "refs/tags/v1.3.0", object: { sha: "versioncommitsha", type: "commit" } } };
+            }
+            if (ref === "heads/main") {
+                return { data: { ref: "refs/heads/main", object: { sha: "versioncommitsha" } } };
+            }
+            const err: any = new Error("Not Found");
+            err.status = 404;
+            throw err;
+        });
+        rest.git.getCommit.mockImplementation(async () => ({
+            data: { sha: "abc123", committer: { date: "2026-01-01T00:00:00Z" }, tree: { sha: "basetreesha" } },
+        }));
+        gh.spies.paginate.mockImplementation(async (fn: any, params: any) => fn === rest.repos.listCommits && params.sha === "main"
+            ? [{ sha: "versioncommitsha", parents: [{ sha: "abc123" }], commit: { message: "chore(release): v1.3.0 [skip ci]" } }]
+            : fn === rest.pulls.listCommits ? [{ sha: "c0ffee0", commit: { message: "feat: new" } }]
+            : [{ name: "v1.3.0", commit: { sha: "versioncommitsha" } }, { name: "v1.2.3" }]);
+
+        await mod.run();
+
+        expect(gh.spies.paginate).toHaveBeenCalledWith(rest.repos.listCommits, expect.objectContaining({ sha: "main", since: "2026-01-01T00:00:00Z" }));
+        expect(rest.git.createCommit).not.toHaveBeenCalled();
+        expect(rest.git.createRef).not.toHaveBeenCalled();
+        expect(coreMock.info).toHaveBeenCalledWith("Tag v1.3.0 already exists on versioncommitsha. Nothing to do.");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("new_tag", "v1.3.0");
+        expect(coreMock.setOutput).toHaveBeenCalledWith("previous_tag", "v1.2.3");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("leaves the changelog file alone when a re-run only verifies the tag", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            pr: { merged: true, number: 12, merge_commit_sha: "abc123", base: { ref: "main" } } as any,
+            tags: [{ name: "v1.3.0", commit: { sha: "abc123" } }, { name: "v1.2.3" }],
+            tagExists: true,
+            commitMessages: ["feat: new"],
+            files: { "CHANGELOG.md": "# Changelog\n\n## v1.3.0\n" },
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "changelog_file") return "CHANGELOG.md";
+            return "";
+        });
+
+        await mod.run();
+
+        const { rest } = gh.spies;
+        expect(rest.git.createRef).not.toHaveBeenCalled();
+        expect(rest.repos.createOrUpdateFileContents).not.toHaveBeenCalled();
+        expect(coreMock.info).toHaveBeenCalledWith("No tag was created by this run; leaving CHANGELOG.md unchanged.");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("fails on a tag of another commit with mismatch_policy fail", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["fix: crash"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "mismatch_policy") return "fail";
+            return "";
+        });
+        const { rest } = gh.spies;
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => ({
+            data: { ref: `refs/${ref}`, object: { sha: "othersha", type: "commit" } },
+        }));
+
+        await mod.run();
+
+        expect(rest.git.createRef).not.toHaveBeenCalled();
+        expect(rest.git.updateRef).not.toHaveBeenCalled();
+        expect(coreMock.setFailed).toHaveBeenCalledWith("Tag v1.2.4 already points at othersha, not abc123. Set mismatch_policy to move to re-point it, or to skip to leave it.");
+    });
+
+    it("moves the tag and the release target with mismatch_policy move", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["fix: crash"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "create_release") return "true";
+            if (name === "mismatch_policy") return "move";
+            return "";
+        });
+        const { rest } = gh.spies;
+        const stale = "0".repeat(40);
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => {
+            if (ref === "tags/v1.2.4") {
+                return { data: { ref: "refs/tags/v1.2.4", object: { sha: stale, type: "commit" } } };
+            }
+            const err: any = new Error("Not Found");
+            err.status = 404;
+            throw err;
+        });
+        rest.repos.getReleaseByTag.mockImplementation(async () => ({
+            data: { id: 7, html_url: "https://example.com/release", target_commitish: stale },
+        }));
+
+        await mod.run();
+
+        expect(rest.git.updateRef).toHaveBeenCalledWith({ owner: "octo", repo: "hello-world", ref: "tags/v1.2.4", sha: "abc123", force: true });
+        expect(rest.repos.updateRelease).toHaveBeenCalledWith({ owner: "octo", repo: "hello-world", release_id: 7, target_commitish: "abc123" });
+        expect(rest.repos.createRelease).not.toHaveBeenCalled();
+        expect(coreMock.setOutput).toHaveBeenCalledWith("tag_created", "true");
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("leaves a tag of another commit alone with mismatch_policy skip", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["fix: crash"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "create_release") return "true";
+            if (name === "mismatch_policy") return "skip";
+            return "";
+        });
+        const { rest } = gh.spies;
+        rest.git.getRef.mockImplementation(async ({ ref }: { ref: string }) => ({
+            data: { ref: `refs/${ref}`, object: { sha: "othersha", type: "commit" } },
+        }));
+
+        await mod.run();
+
+        expect(coreMock.warning).toHaveBeenCalledWith("Tag v1.2.4 already points at othersha, not abc123. Leaving the tag and its release as they are (mismatch_policy: skip).");
+        expect(rest.git.createRef).not.toHaveBeenCalled();
+        expect(rest.repos.createRelease).not.toHaveBeenCalled();
+        expect(coreMock.setFailed).not.toHaveBeenCalled();
+    });
+
+    it("fails the run when the release can't be created after tagging", async () => {
+        const { gh, mod, coreMock } = await importWithMocks({
+            tags: [{ name: "v1.2.3" }],
+            commitMessages: ["fix: crash"],
+        });
+        coreMock.getInput.mockImplementation((name: string) => {
+            if (name === "token") return "TEST_TOKEN";
+            if (name === "v_prefix") return "true";
+            if (name === "create_release") return "true";
+            return "";
+        });
+        const { rest, hook } = gh.spies;
+        rest.repos.createRelease.mockRejectedValueOnce(new Error("Validation Failed"));
+
+        await mod.run();
+
+        expect(hook.wrap).toHaveBeenCalledWith("request", expect.any(Function));
+        expect(rest.git.createRef).toHaveBeenCalledWith(expect.objectContaining({ ref: "refs/tags/v1.2.4" }));
+        expect(coreMock.setFailed).toHaveBeenCalledWith("Failed to create release for v1.2.4: Validation Failed");
+    });
 });
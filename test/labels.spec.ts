@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { applyLabelOverride, DEFAULT_RELEASE_LABELS, parseLabelMode, parseReleaseLabels, resolveLabelOverride } from "../src/labels.js";
+
+describe("parseReleaseLabels", () => {
+    it("keeps defaults and renames configured actions", () => {
+        expect(parseReleaseLabels("")).toEqual(DEFAULT_RELEASE_LABELS);
+        expect(parseReleaseLabels("skip: no-release\nmajor: breaking # big one").major).toBe("breaking");
+        expect(() => parseReleaseLabels("huge: x")).toThrow('Invalid release_labels entry "huge: x"');
+    });
+    it("validates label_mode", () => {
+        expect(parseLabelMode("")).toBe("override");
+        expect(parseLabelMode("Cap")).toBe("cap");
+        expect(() => parseLabelMode("max")).toThrow('Invalid label_mode "max"');
+    });
+});
+
+describe("label overrides", () => {
+    it("picks the highest bump label and collects the others", () => {
+        const override = resolveLabelOverride(["Release:Patch", "release:minor", "release:prerelease", "bug"], DEFAULT_RELEASE_LABELS);
+        expect(override).toEqual({ bump: "minor", bumpLabel: "release:minor", skip: false, prerelease: true, labels: ["release:minor", "release:patch", "release:prerelease"] });
+        expect(resolveLabelOverride(["bug"], DEFAULT_RELEASE_LABELS)).toBeNull();
+    });
+    it("overrides, caps or skips the bump from the commits", () => {
+        const minor = resolveLabelOverride(["release:minor"], DEFAULT_RELEASE_LABELS);
+        expect(applyLabelOverride(null, minor, "override")).toBe("minor");
+        expect(applyLabelOverride("major", minor, "override")).toBe("minor");
+        expect(applyLabelOverride("major", minor, "cap")).toBe("minor");
+        expect(applyLabelOverride("patch", minor, "cap")).toBe("patch");
+        expect(applyLabelOverride(null, minor, "cap")).toBeNull();
+        expect(applyLabelOverride("major", resolveLabelOverride(["release:skip", "release:major"], DEFAULT_RELEASE_LABELS), "override")).toBeNull();
+    });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { lintPullRequest } from "../src/lint.js";
+import { parseCommit } from "../src/index.js";
+
+const keywords = "`feat`, `fix`, or `BREAKING CHANGE`";
+
+describe("lintPullRequest", () => {
+    it("passes conventional titles and commits", () => {
+        const result = lintPullRequest(parseCommit("feat: x"), [parseCommit("feat: x", "1"), parseCommit("Merge branch 'main' into feat", "2")], { requireBump: true, bump: "minor", keywords });
+        expect(result.ok).toBe(true);
+        expect(result.summary).toContain("Bump on merge: **minor**");
+    });
+    it("lists offending title and commits with the reason", () => {
+        const result = lintPullRequest(parseCommit("Add stuff"), [parseCommit("wip", "abcdef123"), parseCommit("fix: ok", "2")], { requireBump: false, bump: "patch", keywords });
+        expect(result.ok).toBe(false);
+        expect(result.issues).toHaveLength(2);
+        expect(result.title).toBe("2 problem(s) with Conventional Commits");
+        expect(result.summary).toContain("- `Add stuff`: PR title does not follow `type(scope): subject`");
+        expect(result.summary).toContain("- `abcdef1` `wip`: Commit does not follow `type(scope): subject`");
+    });
+    it("requires a releasable type when asked", () => {
+        const result = lintPullRequest(parseCommit("docs: readme"), [parseCommit("docs: readme", "1")], { requireBump: true, bump: null, keywords });
+        expect(result.ok).toBe(false);
+        expect(result.summary).toContain("No releasable change found; expected `feat`, `fix`, or `BREAKING CHANGE`");
+        expect(lintPullRequest(null, [], { requireBump: false, bump: null, keywords }).ok).toBe(true);
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { bumpVersionFile, parseVersionFiles } from "../src/manifests.js";
+
+describe("parseVersionFiles", () => {
+    it("detects known manifests and regex entries", () => {
+        expect(parseVersionFiles("package.json\n# comment\npackages/api/Cargo.toml\nsrc/version.ts: VERSION = \"(.*)\"")).toEqual([
+            { path: "package.json", kind: "package.json" },
+            { path: "packages/api/Cargo.toml", kind: "Cargo.toml" },
+            { path: "src/version.ts", kind: "regex", pattern: /VERSION = "(.*)"/m },
+        ]);
+    });
+    it("rejects unknown files and regexes without a group", () => {
+        expect(() => parseVersionFiles("setup.cfg")).toThrow('Invalid version_files entry "setup.cfg"');
+        expect(() => parseVersionFiles("VERSION: \\d+")).toThrow("needs a capture group");
+        expect(() => parseVersionFiles("VERSION: (")).toThrow('Invalid version_files entry "VERSION: ("');
+    });
+});
+
+describe("bumpVersionFile", () => {
+    it("updates package.json and keeps the formatting", () => {
+        const content = '{\n  "name": "x",\n  "version": "1.2.3",\n  "engines": { "version": "1.2.3" }\n}\n';
+        expect(bumpVersionFile({ path: "package.json", kind: "package.json" }, content, "1.3.0"))
+            .toBe('{\n  "name": "x",\n  "version": "1.3.0",\n  "engines": { "version": "1.2.3" }\n}\n');
+    });
+    it("updates the package table of Cargo.toml and pyproject.toml", () => {
+        const cargo = '[dependencies]\nserde = { version = "1" }\n\n[package]\nname = "x"\nversion = "1.2.3"\n';
+        expect(bumpVersionFile({ path: "Cargo.toml", kind: "Cargo.toml" }, cargo, "1.3.0")).toBe(cargo.replace('version = "1.2.3"', 'version = "1.3.0"'));
+        const poetry = "[tool.poetry]\nname = 'x'\nversion = '0.1.0'\n";
+        expect(bumpVersionFile({ path: "pyproject.toml", kind: "pyproject.toml" }, poetry, "0.2.0")).toBe("[tool.poetry]\nname = 'x'\nversion = '0.2.0'\n");
+    });
+    it("updates the project version of pom.xml, not the parent", () => {
+        const pom = "<project>\n<parent><version>9.0</version></parent>\n<version>1.2.3</version>\n</project>\n";
+        expect(bumpVersionFile({ path: "pom.xml", kind: "pom.xml" }, pom, "1.3.0")).toBe("<project>\n<parent><version>9.0</version></parent>\n<version>1.3.0</version>\n</project>\n");
+    });
+    it("fails when there is no version to replace", () => {
+        expect(() => bumpVersionFile({ path: "Cargo.toml", kind: "Cargo.toml" }, "[workspace]\n", "1.3.0")).toThrow("No version found in Cargo.toml.");
+        expect(() => bumpVersionFile({ path: "v.txt", kind: "regex", pattern: /v=(\S+)/m }, "nothing", "1.3.0")).toThrow("No version found in v.txt for /v=(\\S+)/m.");
+    });
+});
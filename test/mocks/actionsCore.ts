@@ -11,6 +11,8 @@ const getInput = vi.fn((name: string): string => {
 
 export default {
   info: vi.fn(),
+  warning: vi.fn(),
   setFailed: vi.fn(),
+  setOutput: vi.fn(),
   getInput
 };
\ No newline at end of file
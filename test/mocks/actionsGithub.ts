@@ -13,10 +13,20 @@ type IssueComment = { id: number; body: string; user?: { type?: string } };
 export function makeGithubMock(opts?: {
   eventName?: string;
   pr?: MergeablePR | null;
-  tags?: Array<{ name: string }>;
+  tags?: Array<{ name: string; commit?: { sha: string } }>;
   tagExists?: boolean;
   commitMessages?: string[];
   releaseExists?: boolean;
+  payload?: Record<string, any>;
+  sha?: string;
+  compareMessages?: string[];
+  prFiles?: string[];
+  commitFiles?: Record<string, string[]>;
+  files?: Record<string, string>;
+  unreachableTags?: string[];
+  openPulls?: Array<{ number: number }>;
+  associatedPulls?: Array<{ merged_at: string | null; head: { ref: string } }>;
+  releases?: Array<Record<string, any>>;
 }) {
   const {
     eventName = "pull_request",
@@ -24,21 +34,42 @@ export function makeGithubMock(opts?: {
     tags = [{ name: "v1.2.3" }, { name: "v1.2.2" }],
     tagExists = false,
     commitMessages = ["fix: sample"],
-    releaseExists = false 
+    releaseExists = false,
+    payload,
+    sha = "headsha",
+    compareMessages = [],
+    prFiles = [],
+    commitFiles = {},
+    files = {},
+    unreachableTags = [],
+    openPulls = [],
+    associatedPulls = [],
+    releases = []
   } = opts || {};
 
   const context = {
     eventName,
+    sha,
+    ref: "refs/heads/main",
     repo: { owner: "octo", repo: "hello-world" },
-    payload: { pull_request: pr }
+    payload: payload ?? { pull_request: pr }
   };
 
+  const compareCommits = compareMessages.map((m, i) => ({ sha: `cafe${i}`, commit: { message: m } }));
+
   const rest = {
     repos: {
-      getCommit: vi.fn(async () => ({
-        data: { commit: { message: commitMessages[0] ?? "" } }
+      getCommit: vi.fn(async ({ ref }: { ref?: string } = {}) => ({
+        data: {
+          commit: { message: commitMessages[0] ?? "" },
+          files: (commitFiles[ref ?? ""] ?? []).map(filename => ({ filename }))
+        }
       })),
       listTags: vi.fn(),
+      listCommits: vi.fn(),
+      compareCommitsWithBasehead: vi.fn(async ({ basehead }: { basehead: string }) => ({
+        data: { status: unreachableTags.includes(basehead.split("...")[0]) ? "diverged" : "ahead", commits: compareCommits }
+      })),
       getReleaseByTag: releaseExists
         ? vi.fn(async () => ({
             data: { id: 1, html_url: "https://example.com/release", tag_name: "v1.2.4" }
@@ -50,24 +81,56 @@ export function makeGithubMock(opts?: {
           }),
       createRelease: vi.fn(async () => ({
         data: { id: 2, html_url: "https://example.com/new-release" }
-      }))
+      })),
+      updateRelease: vi.fn(async () => ({
+        data: { id: 2, html_url: "https://example.com/published-release" }
+      })),
+      uploadReleaseAsset: vi.fn(async () => ({ data: { id: 3 } })),
+      deleteReleaseAsset: vi.fn(async () => ({ data: {} })),
+      listReleases: vi.fn(),
+      listPullRequestsAssociatedWithCommit: vi.fn(async () => ({ data: associatedPulls })),
+      getContent: vi.fn(async ({ path }: { path: string }) => {
+        if (path in files) {
+          return { data: { type: "file", sha: "filesha", content: Buffer.from(files[path]).toString("base64") } };
+        }
+        const err: any = new Error("Not Found");
+        err.status = 404;
+        throw err;
+      }),
+      createOrUpdateFileContents: vi.fn(async () => ({ data: {} }))
     },
     pulls: {
       listCommits: vi.fn(async () => ({
         data: (commitMessages.length ? commitMessages : ["fix: x"]).map(m => ({
           commit: { message: m }
         }))
+      })),
+      listFiles: vi.fn(),
+      list: vi.fn(),
+      create: vi.fn(async () => ({ data: { number: 90, html_url: "https://example.com/pull/90" } })),
+      update: vi.fn(async ({ pull_number }: { pull_number: number }) => ({
+        data: { number: pull_number, html_url: `https://example.com/pull/${pull_number}` }
       }))
     },
     git: {
       getRef: tagExists
-        ? vi.fn(async () => ({ data: { ref: "refs/tags/existing" } }))
+        ? vi.fn(async () => ({ data: { ref: "refs/tags/existing", object: { sha: "abc123", type: "commit" } } }))
         : vi.fn(async () => {
             const err: any = new Error("Not Found");
             err.status = 404;
             throw err;
           }),
-      createRef: vi.fn(async () => ({ data: { ref: "refs/tags/new" } }))
+      createRef: vi.fn(async () => ({ data: { ref: "refs/tags/new" } })),
+      updateRef: vi.fn(async () => ({ data: { ref: "refs/tags/moved" } })),
+      createTag: vi.fn(async () => ({ data: { sha: "tagobjectsha" } })),
+      getTag: vi.fn(async () => ({ data: { sha: "tagobjectsha", object: { sha: "abc123", type: "commit" } } })),
+      createBlob: vi.fn(async () => ({ data: { sha: "blobsha" } })),
+      getCommit: vi.fn(async () => ({ data: { sha: "headsha", tree: { sha: "basetreesha" } } })),
+      createTree: vi.fn(async () => ({ data: { sha: "treesha" } })),
+      createCommit: vi.fn(async () => ({ data: { sha: "versioncommitsha" } }))
+    },
+    checks: {
+      create: vi.fn(async () => ({ data: { id: 1 } }))
     },
     issues: {
       listComments: vi.fn(async () => ({ data: [] as IssueComment[] })), // default: no existing comments
@@ -78,17 +141,33 @@ export function makeGithubMock(opts?: {
 
   const paginate = vi.fn(async (fn: any) => {
     if (fn === rest.pulls.listCommits) {
-      return (commitMessages.length ? commitMessages : ["fix: x"]).map(m => ({
+      return (commitMessages.length ? commitMessages : ["fix: x"]).map((m, i) => ({
+        sha: `c0ffee${i}`,
         commit: { message: m }
       }));
     }
+    if (fn === rest.pulls.listFiles) {
+      return prFiles.map(filename => ({ filename }));
+    }
+    if (fn === rest.repos.listCommits) {
+      return compareCommits;
+    }
+    if (fn === rest.pulls.list) {
+      return openPulls;
+    }
+    if (fn === rest.repos.listReleases) {
+      return releases;
+    }
     return tags;
   });
 
-  const getOctokit = vi.fn(() => ({ rest, paginate }));
+  // installApiLayer registers its request wrapper here
+  const hook = { wrap: vi.fn() };
+
+  const getOctokit = vi.fn(() => ({ rest, paginate, hook }));
 
   return {
     github: { context, getOctokit },
-    spies: { rest, paginate, getOctokit }
+    spies: { rest, paginate, getOctokit, hook }
   };
 }
\ No newline at end of file
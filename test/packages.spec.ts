@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { parsePackages, packageTouched } from "../src/packages.js";
+
+describe("parsePackages", () => {
+    it("parses name, path glob and tag prefix", () => {
+        expect(parsePackages("api: packages/api/**\nweb: apps/web/** web/v # web app\n")).toEqual([
+            { name: "api", path: "packages/api/**", tagPrefix: "api@" },
+            { name: "web", path: "apps/web/**", tagPrefix: "web/v" },
+        ]);
+        expect(parsePackages("")).toEqual([]);
+    });
+    it("rejects invalid and duplicate entries", () => {
+        expect(() => parsePackages("api")).toThrow('Invalid packages entry "api"');
+        expect(() => parsePackages("api: a/**\napi: b/**")).toThrow('Package "api" is configured more than once.');
+    });
+});
+
+describe("packageTouched", () => {
+    const [api] = parsePackages("api: packages/api/**");
+    it("matches files below the package path", () => {
+        expect(packageTouched(api, ["README.md", "packages/api/src/index.ts"])).toBe(true);
+        expect(packageTouched(api, ["packages/api-client/index.ts"])).toBe(false);
+        expect(packageTouched(api, [])).toBe(false);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { parseBumpRules, resolveBumpLevel, describeBumpKeywords, DEFAULT_BUMP_RULES } from "../src/rules.js";
+import { analyzeCommits, detectVersionIncrease } from "../src/index.js";
+
+const teamRules = parseBumpRules("perf: patch\nrefactor: patch\nrevert: inherit\ndocs: none\nchore: none\nci: none\nfeat(api): major");
+
+describe("parseBumpRules", () => {
+    it("puts configured rules before the defaults", () => {
+        expect(parseBumpRules("perf: patch\nfix(deps): none # ignore dependency fixes")).toEqual([
+            { type: "perf", bump: "patch" },
+            { type: "fix", scope: "deps", bump: "none" },
+            ...DEFAULT_BUMP_RULES,
+        ]);
+        expect(parseBumpRules("")).toEqual(DEFAULT_BUMP_RULES);
+    });
+    it("rejects unknown bump levels", () => {
+        expect(() => parseBumpRules("perf: huge")).toThrow('Invalid bump_rules entry "perf: huge"');
+        expect(() => parseBumpRules("perf")).toThrow("Invalid bump_rules entry");
+    });
+});
+
+describe("resolveBumpLevel", () => {
+    it("prefers scoped rules and ignores unknown types", () => {
+        expect(resolveBumpLevel("feat", "api", teamRules)).toBe("major");
+        expect(resolveBumpLevel("feat", "ui", teamRules)).toBe("minor");
+        expect(resolveBumpLevel("style", null, teamRules)).toBe("none");
+        expect(resolveBumpLevel(null, null, teamRules)).toBe("none");
+    });
+});
+
+describe("commit analysis with rules", () => {
+    it("applies configured types", () => {
+        expect(detectVersionIncrease("perf: faster", teamRules)).toBe("patch");
+        expect(detectVersionIncrease("docs: readme", teamRules)).toBeNull();
+        expect(detectVersionIncrease("docs!: drop old docs site", teamRules)).toBe("major");
+        expect(detectVersionIncrease("perf: faster")).toBeNull();
+    });
+    it("lets reverts follow the reverted commit", () => {
+        expect(detectVersionIncrease("revert: feat(ui): add button", teamRules)).toBe("minor");
+        expect(detectVersionIncrease("Revert \"fix: crash\"\n\nThis reverts commit abc.", teamRules)).toBe("patch");
+        expect(detectVersionIncrease("revert: docs: typo", teamRules)).toBeNull();
+        expect(analyzeCommits([{ message: "Revert \"feat: x\"" }]).bump).toBeNull();
+    });
+    it("can disable a default type", () => {
+        expect(detectVersionIncrease("fix: x", parseBumpRules("fix: none"))).toBeNull();
+    });
+});
+
+describe("describeBumpKeywords", () => {
+    it("lists every bumping type", () => {
+        expect(describeBumpKeywords(DEFAULT_BUMP_RULES)).toBe("`feat`, `fix`, or `BREAKING CHANGE`");
+        expect(describeBumpKeywords(teamRules)).toBe("`perf`, `refactor`, `revert`, `feat(api)`, `feat`, `fix`, or `BREAKING CHANGE`");
+        expect(describeBumpKeywords(parseBumpRules("feat: none\nfix: none"))).toBe("`BREAKING CHANGE`");
+    });
+});
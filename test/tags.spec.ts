@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { parseTagType, renderTagMessage, validateSignature, signedTagMessage, DEFAULT_TAGGER } from "../src/tags.js";
+
+const signature = "-----BEGIN PGP SIGNATURE-----\n\niQEzBAABCAAdFiEE\n-----END PGP SIGNATURE-----";
+
+describe("parseTagType", () => {
+    it("defaults to lightweight and validates", () => {
+        expect(parseTagType("")).toBe("lightweight");
+        expect(parseTagType("Annotated")).toBe("annotated");
+        expect(() => parseTagType("signed")).toThrow('Invalid tag_type "signed"');
+    });
+});
+
+describe("renderTagMessage", () => {
+    const values = { tag: "v1.3.0", version: "1.3.0", changelog: "## v1.3.0\n\n- x\n", prTitle: "feat: x" };
+    it("fills the placeholders", () => {
+        expect(renderTagMessage("", values)).toBe("## v1.3.0\n\n- x");
+        expect(renderTagMessage("Release {version} ({pr_title})", values)).toBe("Release 1.3.0 (feat: x)");
+    });
+    it("falls back to the tag name for empty messages", () => {
+        expect(renderTagMessage("{pr_title}", { ...values, prTitle: undefined })).toBe("v1.3.0");
+    });
+});
+
+describe("signatures", () => {
+    const fixed = { tagMessage: "Release {version}", versionFiles: false };
+    const dated = { ...DEFAULT_TAGGER, date: "2026-01-01T00:00:00Z" };
+    it("requires an armored signature and a tagger date", () => {
+        expect(validateSignature("", DEFAULT_TAGGER, fixed)).toBeUndefined();
+        expect(() => validateSignature("abc", dated, fixed)).toThrow("ASCII armored");
+        expect(() => validateSignature(signature, DEFAULT_TAGGER, fixed)).toThrow("tagger_date is required");
+        expect(validateSignature(`\n${signature}\n`, dated, fixed)).toBe(signature);
+    });
+    it("rejects tag objects an earlier step can't know", () => {
+        expect(() => validateSignature(signature, dated, { ...fixed, tagMessage: "" })).toThrow("fixed tag_message without {changelog}");
+        expect(() => validateSignature(signature, dated, { ...fixed, tagMessage: "{tag}\n\n{changelog}" })).toThrow("fixed tag_message");
+        expect(() => validateSignature(signature, dated, { ...fixed, versionFiles: true })).toThrow("can't be used with version_files");
+    });
+    it("appends the signature to the message", () => {
+        expect(signedTagMessage({ message: "msg", tagger: DEFAULT_TAGGER })).toBe("msg");
+        expect(signedTagMessage({ message: "msg", tagger: DEFAULT_TAGGER, signature })).toBe(`msg\n${signature}\n`);
+    });
+});